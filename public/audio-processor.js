@@ -1,11 +1,327 @@
+// Keyword spotting runs on roughly 16 kHz audio, in 25 ms frames every 10 ms
+const KWS_TARGET_RATE = 16000;
+const FRAME_MS = 25;
+const HOP_MS = 10;
+const FFT_SIZE = 512;
+const MEL_BANDS = 26;
+// Cepstral coefficients 1-12; c0 (overall level) is left out so matching
+// doesn't depend on how loudly the word is said
+const CEPSTRA = 12;
+// Frames quieter than this, relative to the loudest, are trimmed off templates
+const TRIM_DB = 30;
+// A match must be below the templates' own average spread times this
+const THRESHOLD_FACTOR = 1.25;
+// Frames ignored after a detection, so one utterance fires once
+const REFRACTORY_FRAMES = 100;
+
+function hzToMel(hz) {
+  return 2595 * Math.log10(1 + hz / 700);
+}
+
+function melToHz(mel) {
+  return 700 * (10 ** (mel / 2595) - 1);
+}
+
+// In-place radix-2 FFT over separate real and imaginary arrays
+function fft(re, im) {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let size = 2; size <= n; size <<= 1) {
+    const step = (-2 * Math.PI) / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const cos = Math.cos(step * k);
+        const sin = Math.sin(step * k);
+        const a = start + k;
+        const b = a + size / 2;
+        const tr = re[b] * cos - im[b] * sin;
+        const ti = re[b] * sin + im[b] * cos;
+        re[b] = re[a] - tr;
+        im[b] = im[a] - ti;
+        re[a] += tr;
+        im[a] += ti;
+      }
+    }
+  }
+}
+
+/**
+ * Turns audio at the context rate into MFCC frames. Input is decimated by
+ * averaging to roughly KWS_TARGET_RATE first.
+ */
+class FeatureExtractor {
+  constructor(inputRate) {
+    this.decimation = Math.max(1, Math.round(inputRate / KWS_TARGET_RATE));
+    const rate = inputRate / this.decimation;
+    this.frameLength = Math.round((rate * FRAME_MS) / 1000);
+    this.hop = Math.round((rate * HOP_MS) / 1000);
+    // Circular buffer holding the most recent frameLength samples
+    this.buffer = new Float32Array(this.frameLength);
+    this.writeIndex = 0;
+    this.filled = 0;
+    this.sinceLastFrame = 0;
+    this.decimateSum = 0;
+    this.decimateCount = 0;
+
+    this.window = new Float32Array(this.frameLength);
+    for (let i = 0; i < this.frameLength; i++) {
+      this.window[i] = 0.54 - 0.46 * Math.cos((2 * Math.PI * i) / (this.frameLength - 1));
+    }
+
+    // Triangular mel filters over the FFT bins
+    const bins = FFT_SIZE / 2 + 1;
+    const maxMel = hzToMel(rate / 2);
+    const edges = [];
+    for (let i = 0; i < MEL_BANDS + 2; i++) {
+      edges.push(Math.floor(((FFT_SIZE + 1) * melToHz((maxMel * i) / (MEL_BANDS + 1))) / rate));
+    }
+    this.filters = [];
+    for (let m = 1; m <= MEL_BANDS; m++) {
+      const filter = new Float32Array(bins);
+      for (let k = edges[m - 1]; k < edges[m]; k++) {
+        filter[k] = (k - edges[m - 1]) / Math.max(1, edges[m] - edges[m - 1]);
+      }
+      for (let k = edges[m]; k < edges[m + 1]; k++) {
+        filter[k] = (edges[m + 1] - k) / Math.max(1, edges[m + 1] - edges[m]);
+      }
+      this.filters.push(filter);
+    }
+
+    this.re = new Float32Array(FFT_SIZE);
+    this.im = new Float32Array(FFT_SIZE);
+  }
+
+  // Returns the frames completed by `samples`, each { cepstra, energyDb }
+  push(samples) {
+    const frames = [];
+    for (let i = 0; i < samples.length; i++) {
+      this.decimateSum += samples[i];
+      if (++this.decimateCount < this.decimation) continue;
+      const sample = this.decimateSum / this.decimation;
+      this.decimateSum = 0;
+      this.decimateCount = 0;
+
+      this.buffer[this.writeIndex] = sample;
+      this.writeIndex = (this.writeIndex + 1) % this.frameLength;
+      this.filled = Math.min(this.frameLength, this.filled + 1);
+      this.sinceLastFrame++;
+      if (this.filled === this.frameLength && this.sinceLastFrame >= this.hop) {
+        this.sinceLastFrame = 0;
+        frames.push(this.frame());
+      }
+    }
+    return frames;
+  }
+
+  frame() {
+    const { re, im } = this;
+    re.fill(0);
+    im.fill(0);
+    let energy = 0;
+    for (let i = 0; i < this.frameLength; i++) {
+      re[i] = this.buffer[(this.writeIndex + i) % this.frameLength] * this.window[i];
+      energy += re[i] * re[i];
+    }
+    fft(re, im);
+
+    const logMel = new Float32Array(MEL_BANDS);
+    for (let m = 0; m < MEL_BANDS; m++) {
+      const filter = this.filters[m];
+      let sum = 0;
+      for (let k = 0; k < filter.length; k++) {
+        if (filter[k] > 0) sum += filter[k] * (re[k] * re[k] + im[k] * im[k]);
+      }
+      logMel[m] = Math.log(sum + 1e-10);
+    }
+
+    const cepstra = new Array(CEPSTRA);
+    for (let c = 1; c <= CEPSTRA; c++) {
+      let sum = 0;
+      for (let m = 0; m < MEL_BANDS; m++) {
+        sum += logMel[m] * Math.cos((Math.PI * c * (m + 0.5)) / MEL_BANDS);
+      }
+      cepstra[c - 1] = sum;
+    }
+    return { cepstra, energyDb: 10 * Math.log10(energy / this.frameLength + 1e-12) };
+  }
+}
+
+function frameDistance(a, b) {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    const d = a[i] - b[i];
+    sum += d * d;
+  }
+  return Math.sqrt(sum);
+}
+
+// Length-normalized DTW distance between two whole templates
+function dtwDistance(a, b) {
+  let prev = new Float64Array(b.length + 1).fill(Infinity);
+  let prevLen = new Float64Array(b.length + 1);
+  prev[0] = 0;
+  for (let i = 1; i <= a.length; i++) {
+    const cur = new Float64Array(b.length + 1).fill(Infinity);
+    const curLen = new Float64Array(b.length + 1);
+    for (let j = 1; j <= b.length; j++) {
+      const steps = [
+        [prev[j - 1], prevLen[j - 1]],
+        [prev[j], prevLen[j]],
+        [cur[j - 1], curLen[j - 1]],
+      ];
+      const [cost, len] = steps.reduce((best, step) => (step[0] < best[0] ? step : best));
+      cur[j] = cost + frameDistance(a[i - 1], b[j - 1]);
+      curLen[j] = len + 1;
+    }
+    prev = cur;
+    prevLen = curLen;
+  }
+  return prev[b.length] / prevLen[b.length];
+}
+
+/**
+ * Subsequence DTW of one template against the incoming frames: after every
+ * frame, the best-matching alignment of the whole template ending there.
+ */
+class TemplateMatcher {
+  constructor(template) {
+    this.template = template;
+    this.cost = new Float64Array(template.length).fill(Infinity);
+    this.length = new Float64Array(template.length);
+    this.start = new Float64Array(template.length);
+  }
+
+  // Returns the normalized distance of a match ending at this frame, or Infinity
+  push(frame, frameIndex) {
+    const n = this.template.length;
+    const cost = new Float64Array(n);
+    const length = new Float64Array(n);
+    const start = new Float64Array(n);
+    for (let i = 0; i < n; i++) {
+      const d = frameDistance(this.template[i], frame);
+      if (i === 0) {
+        // A match may start at any frame
+        cost[0] = d;
+        length[0] = 1;
+        start[0] = frameIndex;
+        continue;
+      }
+      let best = this.cost[i - 1];
+      let from = 'diagonal';
+      if (this.cost[i] < best) {
+        best = this.cost[i];
+        from = 'input';
+      }
+      if (cost[i - 1] < best) {
+        best = cost[i - 1];
+        from = 'template';
+      }
+      const prevCost = from === 'template' ? cost : this.cost;
+      const prevLength = from === 'template' ? length : this.length;
+      const prevStart = from === 'template' ? start : this.start;
+      const j = from === 'input' ? i : i - 1;
+      cost[i] = prevCost[j] + d;
+      length[i] = prevLength[j] + 1;
+      start[i] = prevStart[j];
+    }
+    this.cost = cost;
+    this.length = length;
+    this.start = start;
+
+    // The matched stretch of input must be plausibly as long as the word
+    const span = frameIndex - start[n - 1] + 1;
+    if (span < n * 0.5 || span > n * 2) return Infinity;
+    return cost[n - 1] / length[n - 1];
+  }
+}
+
+// Drops quiet frames from both ends and keeps just the cepstra
+function trimTemplate(frames) {
+  if (frames.length === 0) return [];
+  const loudest = Math.max(...frames.map((f) => f.energyDb));
+  let first = 0;
+  let last = frames.length - 1;
+  while (first < last && frames[first].energyDb < loudest - TRIM_DB) first++;
+  while (last > first && frames[last].energyDb < loudest - TRIM_DB) last--;
+  return frames.slice(first, last + 1).map((f) => f.cepstra);
+}
+
 class AudioProcessor extends AudioWorkletProcessor {
+  constructor() {
+    super();
+    this.matchers = [];
+    this.threshold = Infinity;
+    this.extractor = null;
+    this.frameIndex = 0;
+    this.refractoryUntil = 0;
+    this.port.onmessage = (e) => this.handleMessage(e.data);
+  }
+
+  handleMessage(message) {
+    if (message.type === 'templates') {
+      this.setTemplates(message.templates);
+    } else if (message.type === 'extract') {
+      const extractor = new FeatureExtractor(sampleRate);
+      const features = trimTemplate(extractor.push(message.samples));
+      this.port.postMessage({ type: 'features', requestId: message.requestId, features });
+    }
+  }
+
+  setTemplates(templates) {
+    if (!templates || templates.length < 2) {
+      this.matchers = [];
+      this.extractor = null;
+      return;
+    }
+    // How far apart the user's own takes are sets what counts as a match
+    const distances = [];
+    for (let i = 0; i < templates.length; i++) {
+      for (let j = i + 1; j < templates.length; j++) {
+        distances.push(dtwDistance(templates[i], templates[j]));
+      }
+    }
+    const spread = distances.reduce((a, b) => a + b, 0) / distances.length;
+    this.threshold = spread * THRESHOLD_FACTOR;
+    this.matchers = templates.map((t) => new TemplateMatcher(t));
+    this.extractor = new FeatureExtractor(sampleRate);
+  }
+
+  spot(samples) {
+    for (const { cepstra } of this.extractor.push(samples)) {
+      const index = this.frameIndex++;
+      let best = Infinity;
+      for (const matcher of this.matchers) {
+        best = Math.min(best, matcher.push(cepstra, index));
+      }
+      if (best < this.threshold && index >= this.refractoryUntil) {
+        this.refractoryUntil = index + REFRACTORY_FRAMES;
+        this.port.postMessage({
+          type: 'wake',
+          position: currentFrame + samples.length,
+          score: best / this.threshold,
+        });
+      }
+    }
+  }
+
   process(inputs, outputs) {
     const input = inputs[0];
     const output = outputs[0];
 
     if (input.length > 0) {
-      // Send the audio data to the main thread
-      this.port.postMessage(input[0]);
+      // Send the audio data to the main thread along with its position on
+      // the audio clock so the capture buffer can index it absolutely
+      this.port.postMessage({ type: 'audio', samples: input[0], position: currentFrame });
+
+      if (this.extractor) this.spot(input[0]);
 
       // Copy input to output for passthrough
       for (let channel = 0; channel < output.length; ++channel) {
@@ -2,13 +2,15 @@ import React from 'react';
 import '@mantine/core/styles.css';
 import { MantineProvider } from '@mantine/core';
 import { AudioRecorder } from './components/AudioRecorder';
+import { LedgerView } from './components/LedgerView';
 
 function App() {
   return (
     <MantineProvider>
-      <div style={{ maxWidth: '800px', margin: '0 auto', padding: '2rem' }}>
+      <div style={{ maxWidth: '1200px', margin: '0 auto', padding: '2rem' }}>
         <h1>Expense Tracker</h1>
         <AudioRecorder />
+        <LedgerView />
       </div>
     </MantineProvider>
   );
@@ -0,0 +1,67 @@
+import React from 'react';
+import { Group, Select, Switch } from '@mantine/core';
+import type { DSPOptions, NormalizationMode } from '../services/audioMerging';
+
+interface AudioProcessingSettingsProps {
+  options: DSPOptions;
+  onChange: (options: DSPOptions) => void;
+  // The upload rate can only change between sessions
+  sampleRateLocked?: boolean;
+}
+
+const SAMPLE_RATES = [
+  { value: 'capture', label: 'Capture rate' },
+  { value: '16000', label: '16 kHz' },
+  { value: '24000', label: '24 kHz' },
+  { value: '48000', label: '48 kHz' },
+];
+
+const NORMALIZATION_MODES = [
+  { value: 'none', label: 'Off' },
+  { value: 'peak', label: 'Peak' },
+  { value: 'rms', label: 'RMS' },
+];
+
+export function AudioProcessingSettings({
+  options,
+  onChange,
+  sampleRateLocked = false,
+}: AudioProcessingSettingsProps) {
+  return (
+    <Group gap="xs" align="flex-end">
+      <Select
+        size="xs"
+        w={120}
+        label="Upload rate"
+        allowDeselect={false}
+        data={SAMPLE_RATES}
+        disabled={sampleRateLocked}
+        value={options.targetSampleRate === null ? 'capture' : String(options.targetSampleRate)}
+        onChange={(value) =>
+          onChange({
+            ...options,
+            targetSampleRate: !value || value === 'capture' ? null : Number(value),
+          })
+        }
+      />
+      <Select
+        size="xs"
+        w={90}
+        label="Normalize"
+        allowDeselect={false}
+        data={NORMALIZATION_MODES}
+        value={options.normalization}
+        onChange={(value) =>
+          onChange({ ...options, normalization: (value ?? 'none') as NormalizationMode })
+        }
+      />
+      <Switch
+        size="xs"
+        mb={6}
+        label="Trim silence"
+        checked={options.trimSilence}
+        onChange={(e) => onChange({ ...options, trimSilence: e.currentTarget.checked })}
+      />
+    </Group>
+  );
+}
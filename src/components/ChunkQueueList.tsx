@@ -0,0 +1,64 @@
+import React from 'react';
+import { Badge, Button, Group, Stack, Text } from '@mantine/core';
+import type { ChunkState, ChunkStatus } from '../types';
+
+interface ChunkQueueListProps {
+  chunks: ChunkState[];
+  onRetry: (sequenceId: number) => void;
+  onDiscard: (sequenceId: number) => void;
+}
+
+const STATUS_COLORS: Record<ChunkStatus, string> = {
+  queued: 'gray',
+  sending: 'blue',
+  retrying: 'yellow',
+  failed: 'red',
+  done: 'green',
+};
+
+export function ChunkQueueList({ chunks, onRetry, onDiscard }: ChunkQueueListProps) {
+  if (chunks.length === 0) return null;
+
+  return (
+    <Stack gap={4}>
+      <Text size="sm" fw={500}>
+        Audio chunks
+      </Text>
+      {chunks.map((chunk) => (
+        <Group key={chunk.sequenceId} gap="xs" wrap="nowrap">
+          <Text size="xs" w={70}>
+            #{chunk.sequenceId}
+          </Text>
+          <Badge size="sm" color={STATUS_COLORS[chunk.status]} variant="light">
+            {chunk.status}
+          </Badge>
+          {chunk.attempts > 0 && (
+            <Text size="xs" c="dimmed">
+              {chunk.attempts} {chunk.attempts === 1 ? 'attempt' : 'attempts'}
+            </Text>
+          )}
+          {chunk.lastError && chunk.status !== 'done' && (
+            <Text size="xs" c="dimmed" truncate>
+              {chunk.lastError}
+            </Text>
+          )}
+          {chunk.status === 'failed' && (
+            <Group gap={4} ml="auto" wrap="nowrap">
+              <Button size="compact-xs" variant="outline" onClick={() => onRetry(chunk.sequenceId)}>
+                Retry
+              </Button>
+              <Button
+                size="compact-xs"
+                variant="outline"
+                color="red"
+                onClick={() => onDiscard(chunk.sequenceId)}
+              >
+                Discard
+              </Button>
+            </Group>
+          )}
+        </Group>
+      ))}
+    </Stack>
+  );
+}
@@ -0,0 +1,64 @@
+import React, { useState } from 'react';
+import { Badge, Button, Dialog, Group, Stack, Text, TextInput } from '@mantine/core';
+import { clarificationPrompt } from '../services/semanticContext';
+import type { IdentifiedSemanticUnit } from '../types';
+
+interface ClarificationDialogProps {
+  unit: IdentifiedSemanticUnit | null;
+  isListening: boolean;
+  onAnswer: (unit: IdentifiedSemanticUnit, text: string) => void;
+  onDismiss: (unit: IdentifiedSemanticUnit) => void;
+}
+
+export function ClarificationDialog({
+  unit,
+  isListening,
+  onAnswer,
+  onDismiss,
+}: ClarificationDialogProps) {
+  const [answer, setAnswer] = useState('');
+
+  const submit = () => {
+    if (!unit || !answer.trim()) return;
+    onAnswer(unit, answer.trim());
+    setAnswer('');
+  };
+
+  return (
+    <Dialog opened={unit !== null} position={{ bottom: 20, right: 20 }} size="lg" withBorder>
+      {unit && (
+        <Stack gap="xs">
+          <Text size="sm" fw={500}>
+            {clarificationPrompt(unit)}
+          </Text>
+          {unit.text && (
+            <Text size="xs" c="dimmed">
+              About: “{unit.text}”
+            </Text>
+          )}
+          {isListening && (
+            <Badge color="blue" variant="light" tt="none">
+              Or just answer out loud — your next phrase will be linked
+            </Badge>
+          )}
+          <Group gap="xs" align="flex-end">
+            <TextInput
+              size="xs"
+              style={{ flex: 1 }}
+              placeholder="Type your answer"
+              value={answer}
+              onChange={(e) => setAnswer(e.currentTarget.value)}
+              onKeyDown={(e) => e.key === 'Enter' && submit()}
+            />
+            <Button size="xs" onClick={submit} disabled={!answer.trim()}>
+              Send
+            </Button>
+            <Button size="xs" variant="subtle" onClick={() => onDismiss(unit)}>
+              Dismiss
+            </Button>
+          </Group>
+        </Stack>
+      )}
+    </Dialog>
+  );
+}
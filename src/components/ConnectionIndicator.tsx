@@ -0,0 +1,33 @@
+import React from 'react';
+import { Badge, Tooltip } from '@mantine/core';
+import { useConnectionStatus } from '../hooks/useConnectionStatus';
+import type { ConnectionState } from '../services/socket';
+
+const STATE_LABELS: Record<ConnectionState, { label: string; color: string }> = {
+  connecting: { label: 'Connecting...', color: 'yellow' },
+  connected: { label: 'Connected', color: 'green' },
+  reconnecting: { label: 'Reconnecting...', color: 'orange' },
+  disconnected: { label: 'Disconnected', color: 'gray' },
+  error: { label: 'Connection error', color: 'red' },
+};
+
+export function ConnectionIndicator() {
+  const status = useConnectionStatus();
+  const { label, color } = STATE_LABELS[status.state];
+
+  const details = [
+    status.serverUrl,
+    status.attempt ? `attempt ${status.attempt}` : null,
+    status.state !== 'connected' ? status.error : null,
+  ]
+    .filter(Boolean)
+    .join(' · ');
+
+  return (
+    <Tooltip label={details}>
+      <Badge color={color} variant="dot">
+        {label}
+      </Badge>
+    </Tooltip>
+  );
+}
@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import {
+  Alert,
+  Button,
+  Drawer,
+  Group,
+  NumberInput,
+  PasswordInput,
+  SegmentedControl,
+  Stack,
+  Switch,
+  Text,
+  TextInput,
+} from '@mantine/core';
+import {
+  clearConnectionSettings,
+  DEFAULT_CONNECTION_SETTINGS,
+  loadConnectionSettings,
+  loadSavedConnectionSettings,
+  queryOverrides,
+  saveConnectionSettings,
+  type ConnectionSettings,
+  type TransportPreference,
+} from '../services/settings';
+import { configureSocket } from '../services/socket';
+
+interface ConnectionSettingsPanelProps {
+  opened: boolean;
+  onClose: () => void;
+}
+
+export function ConnectionSettingsPanel({ opened, onClose }: ConnectionSettingsPanelProps) {
+  const [draft, setDraft] = useState<ConnectionSettings>(loadSavedConnectionSettings);
+  const overridden = Object.keys(queryOverrides());
+
+  const setReconnection = (changes: Partial<ConnectionSettings['reconnection']>) =>
+    setDraft({ ...draft, reconnection: { ...draft.reconnection, ...changes } });
+
+  const save = () => {
+    saveConnectionSettings(draft);
+    configureSocket(loadConnectionSettings());
+    onClose();
+  };
+
+  const reset = () => {
+    clearConnectionSettings();
+    setDraft(loadSavedConnectionSettings());
+  };
+
+  return (
+    <Drawer opened={opened} onClose={onClose} title="Connection settings" position="right">
+      <Stack gap="sm">
+        {overridden.length > 0 && (
+          <Alert color="yellow" title="URL overrides active">
+            This page was opened with {overridden.join(', ')} set in the URL. Those values take
+            precedence over what is saved here.
+          </Alert>
+        )}
+        <TextInput
+          label="Server URL"
+          placeholder={DEFAULT_CONNECTION_SETTINGS.serverUrl}
+          value={draft.serverUrl}
+          onChange={(e) => setDraft({ ...draft, serverUrl: e.currentTarget.value })}
+        />
+        <PasswordInput
+          label="Auth token"
+          value={draft.authToken}
+          onChange={(e) => setDraft({ ...draft, authToken: e.currentTarget.value })}
+        />
+        <div>
+          <Text size="sm" fw={500} mb={4}>
+            Transport
+          </Text>
+          <SegmentedControl
+            fullWidth
+            value={draft.transport}
+            onChange={(transport) =>
+              setDraft({ ...draft, transport: transport as TransportPreference })
+            }
+            data={[
+              { label: 'Auto', value: 'auto' },
+              { label: 'WebSocket', value: 'websocket' },
+              { label: 'Polling', value: 'polling' },
+            ]}
+          />
+        </div>
+        <Switch
+          label="Reconnect automatically"
+          checked={draft.reconnection.enabled}
+          onChange={(e) => setReconnection({ enabled: e.currentTarget.checked })}
+        />
+        <NumberInput
+          label="Max reconnection attempts"
+          description="0 keeps retrying forever"
+          min={0}
+          disabled={!draft.reconnection.enabled}
+          value={draft.reconnection.maxAttempts}
+          onChange={(value) => setReconnection({ maxAttempts: Number(value) || 0 })}
+        />
+        <Group grow>
+          <NumberInput
+            label="Initial delay (ms)"
+            min={100}
+            step={100}
+            disabled={!draft.reconnection.enabled}
+            value={draft.reconnection.delayMs}
+            onChange={(value) => setReconnection({ delayMs: Number(value) || 0 })}
+          />
+          <NumberInput
+            label="Max delay (ms)"
+            min={100}
+            step={1000}
+            disabled={!draft.reconnection.enabled}
+            value={draft.reconnection.delayMaxMs}
+            onChange={(value) => setReconnection({ delayMaxMs: Number(value) || 0 })}
+          />
+        </Group>
+        <Group justify="space-between" mt="md">
+          <Button variant="subtle" onClick={reset}>
+            Reset to defaults
+          </Button>
+          <Button onClick={save}>Save &amp; reconnect</Button>
+        </Group>
+      </Stack>
+    </Drawer>
+  );
+}
@@ -0,0 +1,63 @@
+import React, { useEffect, useState } from 'react';
+import { Button, Card, Group, Table, Text } from '@mantine/core';
+import { getSegmentEncoder } from '../services/audioEncoders';
+import type { EncoderStatsCollector, EncoderSummary } from '../services/encoderStats';
+
+interface EncoderStatsPanelProps {
+  collector: EncoderStatsCollector;
+}
+
+export function EncoderStatsPanel({ collector }: EncoderStatsPanelProps) {
+  const [summaries, setSummaries] = useState<EncoderSummary[]>(collector.getSummaries());
+
+  useEffect(() => {
+    setSummaries(collector.getSummaries());
+    return collector.subscribe(() => setSummaries(collector.getSummaries()));
+  }, [collector]);
+
+  return (
+    <Card withBorder padding="sm">
+      <Group justify="space-between">
+        <Text size="sm" fw={500}>
+          Encoder stats
+        </Text>
+        {summaries.length > 0 && (
+          <Button size="compact-xs" variant="subtle" onClick={() => collector.reset()}>
+            Clear
+          </Button>
+        )}
+      </Group>
+
+      {summaries.length === 0 ? (
+        <Text size="xs" c="dimmed" mt="xs">
+          No segments encoded yet.
+        </Text>
+      ) : (
+        <Table fz="xs" mt="xs">
+          <Table.Thead>
+            <Table.Tr>
+              <Table.Th>Encoder</Table.Th>
+              <Table.Th>Segments</Table.Th>
+              <Table.Th>Avg size</Table.Th>
+              <Table.Th>vs PCM</Table.Th>
+              <Table.Th>Avg encode</Table.Th>
+              <Table.Th>Per audio second</Table.Th>
+            </Table.Tr>
+          </Table.Thead>
+          <Table.Tbody>
+            {summaries.map((s) => (
+              <Table.Tr key={s.codec}>
+                <Table.Td>{getSegmentEncoder(s.codec).label}</Table.Td>
+                <Table.Td>{s.segments}</Table.Td>
+                <Table.Td>{(s.averageBytes / 1024).toFixed(1)} KB</Table.Td>
+                <Table.Td>{Math.round(s.compressionRatio * 100)}%</Table.Td>
+                <Table.Td>{Math.round(s.averageEncodeMs)} ms</Table.Td>
+                <Table.Td>{Math.round(s.realtimeFactor * 1000)} ms</Table.Td>
+              </Table.Tr>
+            ))}
+          </Table.Tbody>
+        </Table>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,254 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Autocomplete,
+  Button,
+  Group,
+  NumberInput,
+  Select,
+  Stack,
+  Table,
+  Tabs,
+  Text,
+  TextInput,
+} from '@mantine/core';
+import {
+  DEFAULT_CATEGORIES,
+  deleteExpense,
+  deleteRejection,
+  listExpenses,
+  listRejections,
+  subscribeToLedger,
+  updateExpense,
+} from '../services/ledger';
+import type { ExpenseRecord, RejectedProposal } from '../types';
+
+type ExpenseDraft = Pick<ExpenseRecord, 'description' | 'amount' | 'category' | 'date'>;
+
+export function LedgerView() {
+  const [expenses, setExpenses] = useState<ExpenseRecord[]>([]);
+  const [rejections, setRejections] = useState<RejectedProposal[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<ExpenseDraft | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const [nextExpenses, nextRejections] = await Promise.all([
+          listExpenses(),
+          listRejections(),
+        ]);
+        setExpenses(nextExpenses);
+        setRejections(nextRejections);
+      } catch (err) {
+        console.error('[LEDGER] Error loading ledger:', err);
+        setError(err instanceof Error ? err.message : String(err));
+      }
+    };
+
+    load();
+    return subscribeToLedger(load);
+  }, []);
+
+  // Offer every category already in use alongside the defaults
+  const categories = Array.from(
+    new Set([...DEFAULT_CATEGORIES, ...expenses.map((e) => e.category).filter(Boolean)])
+  );
+
+  const runLedgerAction = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+      setError(null);
+    } catch (err) {
+      console.error('[LEDGER] Ledger action failed:', err);
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const startEditing = (expense: ExpenseRecord) => {
+    setEditingId(expense.id);
+    setDraft({
+      description: expense.description,
+      amount: expense.amount,
+      category: expense.category,
+      date: expense.date,
+    });
+  };
+
+  const cancelEditing = () => {
+    setEditingId(null);
+    setDraft(null);
+  };
+
+  const saveEditing = async () => {
+    if (!editingId || !draft) return;
+    await runLedgerAction(() => updateExpense(editingId, draft));
+    cancelEditing();
+  };
+
+  const total = expenses.reduce((sum, e) => sum + e.amount, 0);
+
+  return (
+    <Stack gap="sm">
+      <Text size="lg" fw={500}>
+        Ledger
+      </Text>
+      {error && (
+        <Text c="red" size="sm">
+          {error}
+        </Text>
+      )}
+      <Tabs defaultValue="expenses">
+        <Tabs.List>
+          <Tabs.Tab value="expenses">Expenses ({expenses.length})</Tabs.Tab>
+          <Tabs.Tab value="rejections">Rejected ({rejections.length})</Tabs.Tab>
+        </Tabs.List>
+
+        <Tabs.Panel value="expenses" pt="sm">
+          {expenses.length === 0 ? (
+            <Text c="dimmed">No expenses recorded yet.</Text>
+          ) : (
+            <Table>
+              <Table.Thead>
+                <Table.Tr>
+                  <Table.Th>Date</Table.Th>
+                  <Table.Th>Description</Table.Th>
+                  <Table.Th>Category</Table.Th>
+                  <Table.Th>Amount</Table.Th>
+                  <Table.Th />
+                </Table.Tr>
+              </Table.Thead>
+              <Table.Tbody>
+                {expenses.map((expense) =>
+                  editingId === expense.id && draft ? (
+                    <Table.Tr key={expense.id}>
+                      <Table.Td>
+                        <TextInput
+                          type="date"
+                          size="xs"
+                          value={draft.date}
+                          onChange={(e) => setDraft({ ...draft, date: e.currentTarget.value })}
+                        />
+                      </Table.Td>
+                      <Table.Td>
+                        <TextInput
+                          size="xs"
+                          value={draft.description}
+                          onChange={(e) =>
+                            setDraft({ ...draft, description: e.currentTarget.value })
+                          }
+                        />
+                      </Table.Td>
+                      <Table.Td>
+                        <Autocomplete
+                          size="xs"
+                          data={categories}
+                          value={draft.category}
+                          onChange={(category) => setDraft({ ...draft, category })}
+                        />
+                      </Table.Td>
+                      <Table.Td>
+                        <NumberInput
+                          size="xs"
+                          min={0}
+                          decimalScale={2}
+                          value={draft.amount}
+                          onChange={(amount) => setDraft({ ...draft, amount: Number(amount) || 0 })}
+                        />
+                      </Table.Td>
+                      <Table.Td>
+                        <Group gap="xs" wrap="nowrap">
+                          <Button size="xs" onClick={saveEditing}>
+                            Save
+                          </Button>
+                          <Button size="xs" variant="subtle" onClick={cancelEditing}>
+                            Cancel
+                          </Button>
+                        </Group>
+                      </Table.Td>
+                    </Table.Tr>
+                  ) : (
+                    <Table.Tr key={expense.id}>
+                      <Table.Td>{expense.date}</Table.Td>
+                      <Table.Td>
+                        <Text size="sm">{expense.description}</Text>
+                        {expense.sourceTranscription && (
+                          <Text size="xs" c="dimmed">
+                            “{expense.sourceTranscription}”
+                          </Text>
+                        )}
+                      </Table.Td>
+                      <Table.Td>
+                        <Select
+                          size="xs"
+                          data={categories}
+                          value={expense.category}
+                          allowDeselect={false}
+                          onChange={(category) =>
+                            category &&
+                            runLedgerAction(() => updateExpense(expense.id, { category }))
+                          }
+                        />
+                      </Table.Td>
+                      <Table.Td>{expense.amount.toFixed(2)}</Table.Td>
+                      <Table.Td>
+                        <Group gap="xs" wrap="nowrap">
+                          <Button size="xs" variant="outline" onClick={() => startEditing(expense)}>
+                            Edit
+                          </Button>
+                          <Button
+                            size="xs"
+                            variant="outline"
+                            color="red"
+                            onClick={() => runLedgerAction(() => deleteExpense(expense.id))}
+                          >
+                            Delete
+                          </Button>
+                        </Group>
+                      </Table.Td>
+                    </Table.Tr>
+                  )
+                )}
+              </Table.Tbody>
+            </Table>
+          )}
+          {expenses.length > 0 && (
+            <Text ta="right" fw={500} mt="xs">
+              Total: {total.toFixed(2)}
+            </Text>
+          )}
+        </Tabs.Panel>
+
+        <Tabs.Panel value="rejections" pt="sm">
+          {rejections.length === 0 ? (
+            <Text c="dimmed">No rejected proposals.</Text>
+          ) : (
+            <Stack gap="xs">
+              {rejections.map((rejection) => (
+                <Group key={rejection.id} justify="space-between" wrap="nowrap">
+                  <div>
+                    <Text size="sm">
+                      {rejection.proposal.description} — {rejection.proposal.amount}
+                    </Text>
+                    <Text size="xs" c="dimmed">
+                      {new Date(rejection.rejectedAt).toLocaleString()} · Reason:{' '}
+                      {rejection.reason || 'none given'}
+                    </Text>
+                  </div>
+                  <Button
+                    size="xs"
+                    variant="subtle"
+                    color="red"
+                    onClick={() => runLedgerAction(() => deleteRejection(rejection.id))}
+                  >
+                    Remove
+                  </Button>
+                </Group>
+              ))}
+            </Stack>
+          )}
+        </Tabs.Panel>
+      </Tabs>
+    </Stack>
+  );
+}
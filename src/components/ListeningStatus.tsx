@@ -1,26 +1,51 @@
 import React from 'react';
-import { Group, Badge } from '@mantine/core';
+import { Group, Badge, Tooltip } from '@mantine/core';
+import type { PauseReason, RecorderState, RecorderStatus } from '../services/recorderState';
+
+const STATUS_LABELS: Record<RecorderStatus, { label: string; color: string }> = {
+  idle: { label: 'Not Listening', color: 'gray' },
+  initializing: { label: 'Initializing...', color: 'yellow' },
+  listening: { label: 'Listening', color: 'blue' },
+  paused: { label: 'Paused', color: 'orange' },
+  reconnecting: { label: 'Reconnecting...', color: 'orange' },
+  error: { label: 'Error', color: 'red' },
+};
+
+const PAUSE_REASONS: Record<PauseReason, string> = {
+  hidden: 'Tab in background',
+  suspended: 'Audio suspended by the browser',
+};
 
 interface ListeningStatusProps {
-  isListening: boolean;
-  isRecording: boolean;
-  isInitializing?: boolean;
+  state: RecorderState;
+  pendingChunks?: number;
 }
 
-export function ListeningStatus({
-  isListening,
-  isRecording,
-  isInitializing,
-}: ListeningStatusProps) {
+export function ListeningStatus({ state, pendingChunks = 0 }: ListeningStatusProps) {
+  const { label, color } = STATUS_LABELS[state.status];
+  const details =
+    state.status === 'paused' && state.pauseReason
+      ? PAUSE_REASONS[state.pauseReason]
+      : state.status === 'reconnecting'
+        ? 'Speech is queued until the server is back'
+        : state.error;
+
   return (
     <Group>
-      <Badge color={isListening ? 'blue' : 'gray'}>
-        {isListening ? 'Listening' : 'Not Listening'}
-      </Badge>
-      {isInitializing && <Badge color="yellow">Initializing...</Badge>}
-      {isListening && !isInitializing && (
-        <Badge color={isRecording ? 'red' : 'blue'} variant={isRecording ? 'filled' : 'light'}>
-          {isRecording ? 'Recording' : 'Ready for voice'}
+      <Tooltip label={details} disabled={!details}>
+        <Badge color={color}>{label}</Badge>
+      </Tooltip>
+      {(state.status === 'listening' || state.status === 'reconnecting') && (
+        <Badge
+          color={state.recording ? 'red' : 'blue'}
+          variant={state.recording ? 'filled' : 'light'}
+        >
+          {state.recording ? 'Recording' : 'Ready for voice'}
+        </Badge>
+      )}
+      {pendingChunks > 0 && (
+        <Badge color="orange" variant="light">
+          {pendingChunks} {pendingChunks === 1 ? 'chunk' : 'chunks'} pending
         </Badge>
       )}
     </Group>
@@ -0,0 +1,87 @@
+import React, { useEffect, useState } from 'react';
+import { Group, Select, Stack, Switch } from '@mantine/core';
+import {
+  DEFAULT_DEVICE,
+  listMicrophones,
+  processingFor,
+  type AudioProcessingConstraints,
+  type MicrophoneSettings,
+} from '../services/audioDevices';
+
+interface MicrophonePickerProps {
+  settings: MicrophoneSettings;
+  onChange: (settings: MicrophoneSettings) => void;
+}
+
+const PROCESSING_LABELS: Record<keyof AudioProcessingConstraints, string> = {
+  echoCancellation: 'Echo cancellation',
+  noiseSuppression: 'Noise suppression',
+  autoGainControl: 'Auto gain',
+};
+
+export function MicrophonePicker({ settings, onChange }: MicrophonePickerProps) {
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+
+  useEffect(() => {
+    const load = () =>
+      listMicrophones()
+        .then(setDevices)
+        .catch((err) => console.error('[DEVICES] Error listing microphones:', err));
+
+    load();
+    navigator.mediaDevices.addEventListener('devicechange', load);
+    return () => navigator.mediaDevices.removeEventListener('devicechange', load);
+  }, []);
+
+  const processing = processingFor(settings);
+  // Labels stay empty until the user has granted microphone access once
+  const options = [
+    { value: DEFAULT_DEVICE, label: 'System default' },
+    ...devices
+      .filter((device) => device.deviceId && device.deviceId !== DEFAULT_DEVICE)
+      .map((device, index) => ({
+        value: device.deviceId,
+        label: device.label || `Microphone ${index + 1}`,
+      })),
+  ];
+  // A remembered device that is unplugged still shows as selected
+  if (settings.deviceId && !options.some((o) => o.value === settings.deviceId)) {
+    options.push({ value: settings.deviceId, label: 'Unavailable microphone' });
+  }
+
+  const setProcessing = (key: keyof AudioProcessingConstraints, value: boolean) => {
+    onChange({
+      ...settings,
+      processing: {
+        ...settings.processing,
+        [settings.deviceId ?? DEFAULT_DEVICE]: { ...processing, [key]: value },
+      },
+    });
+  };
+
+  return (
+    <Stack gap={6}>
+      <Select
+        size="xs"
+        label="Microphone"
+        allowDeselect={false}
+        data={options}
+        value={settings.deviceId ?? DEFAULT_DEVICE}
+        onChange={(value) =>
+          value && onChange({ ...settings, deviceId: value === DEFAULT_DEVICE ? null : value })
+        }
+      />
+      <Group gap="sm">
+        {(Object.keys(PROCESSING_LABELS) as (keyof AudioProcessingConstraints)[]).map((key) => (
+          <Switch
+            key={key}
+            size="xs"
+            label={PROCESSING_LABELS[key]}
+            checked={processing[key]}
+            onChange={(e) => setProcessing(key, e.currentTarget.checked)}
+          />
+        ))}
+      </Group>
+    </Stack>
+  );
+}
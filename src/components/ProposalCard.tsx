@@ -0,0 +1,195 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Badge,
+  Button,
+  Card,
+  Group,
+  NumberInput,
+  Progress,
+  Select,
+  Stack,
+  Text,
+  TextInput,
+} from '@mantine/core';
+import { DEFAULT_CATEGORIES } from '../services/ledger';
+import { SegmentPlayer } from './SegmentPlayer';
+import type { Proposal, ProposalDiff } from '../types';
+
+interface ProposalCardProps {
+  proposal: Proposal;
+  onApprove: (corrected: Proposal, diff: ProposalDiff, original: Proposal) => void;
+  onReject: (proposal: Proposal, reason: string) => void;
+}
+
+/**
+ * Compares the edited proposal against the original and returns only the
+ * fields that changed.
+ */
+function diffProposal(original: Proposal, edited: Proposal): ProposalDiff {
+  const diff: ProposalDiff = {};
+  if (original.description !== edited.description) {
+    diff.description = { from: original.description, to: edited.description };
+  }
+  if (original.amount !== edited.amount) {
+    diff.amount = { from: original.amount, to: edited.amount };
+  }
+  if (original.suggestedCategory !== edited.suggestedCategory) {
+    diff.suggestedCategory = { from: original.suggestedCategory, to: edited.suggestedCategory };
+  }
+  return diff;
+}
+
+// Server confidences may arrive as 0-1 or 0-100
+function toPercent(confidence: number | undefined): number {
+  if (confidence === undefined || Number.isNaN(confidence)) return 0;
+  const percent = confidence <= 1 ? confidence * 100 : confidence;
+  return Math.max(0, Math.min(100, Math.round(percent)));
+}
+
+function confidenceColor(percent: number): string {
+  if (percent >= 75) return 'green';
+  if (percent >= 50) return 'yellow';
+  return 'red';
+}
+
+function ConfidenceMeter({ label, confidence }: { label: string; confidence?: number }) {
+  const percent = toPercent(confidence);
+  return (
+    <div>
+      <Group justify="space-between" gap="xs">
+        <Text size="xs" c="dimmed">
+          {label}
+        </Text>
+        <Text size="xs" c="dimmed">
+          {confidence === undefined ? 'n/a' : `${percent}%`}
+        </Text>
+      </Group>
+      <Progress value={percent} color={confidenceColor(percent)} size="sm" />
+    </div>
+  );
+}
+
+export function ProposalCard({ proposal, onApprove, onReject }: ProposalCardProps) {
+  const [draft, setDraft] = useState<Proposal>(proposal);
+  const [isRejecting, setIsRejecting] = useState(false);
+  const [reason, setReason] = useState('');
+
+  // An update from the server replaces whatever was being edited
+  useEffect(() => {
+    setDraft(proposal);
+  }, [proposal]);
+
+  const diff = diffProposal(proposal, draft);
+  const isEdited = Object.keys(diff).length > 0;
+  const categories = Array.from(new Set([proposal.suggestedCategory, ...DEFAULT_CATEGORIES]));
+  const relatedEntities = proposal.semanticContext?.relatedEntities ?? [];
+
+  const confirmReject = () => {
+    onReject(proposal, reason.trim());
+    setIsRejecting(false);
+    setReason('');
+  };
+
+  return (
+    <Card withBorder padding="sm">
+      <Stack gap="xs">
+        <Group grow align="flex-end">
+          <TextInput
+            size="xs"
+            label="Description"
+            value={draft.description}
+            onChange={(e) => setDraft({ ...draft, description: e.currentTarget.value })}
+          />
+          <NumberInput
+            size="xs"
+            label="Amount"
+            min={0}
+            decimalScale={2}
+            value={draft.amount}
+            onChange={(amount) => setDraft({ ...draft, amount: Number(amount) || 0 })}
+          />
+          <Select
+            size="xs"
+            label="Category"
+            searchable
+            allowDeselect={false}
+            data={categories}
+            value={draft.suggestedCategory}
+            onChange={(category) => category && setDraft({ ...draft, suggestedCategory: category })}
+          />
+        </Group>
+
+        {proposal.semanticContext?.temporalReference && (
+          <Text size="xs" c="dimmed">
+            When: {proposal.semanticContext.temporalReference}
+          </Text>
+        )}
+
+        {relatedEntities.length > 0 && (
+          <Group gap={4}>
+            {relatedEntities.map((entity) => (
+              <Badge key={entity} variant="light" size="sm">
+                {entity}
+              </Badge>
+            ))}
+          </Group>
+        )}
+
+        <Group grow>
+          <ConfidenceMeter label="Proposal confidence" confidence={proposal.confidence} />
+          <ConfidenceMeter
+            label="Context confidence"
+            confidence={proposal.semanticContext?.confidence}
+          />
+        </Group>
+
+        {proposal.sourceTranscription && (
+          <Text size="xs" c="dimmed" fs="italic">
+            “{proposal.sourceTranscription}”
+          </Text>
+        )}
+
+        {proposal.audioSegmentId && <SegmentPlayer segmentId={proposal.audioSegmentId} />}
+
+        {isRejecting ? (
+          <Group gap="xs" align="flex-end">
+            <TextInput
+              size="xs"
+              label="Reason for rejecting"
+              placeholder="e.g. duplicate, wrong amount"
+              value={reason}
+              onChange={(e) => setReason(e.currentTarget.value)}
+              onKeyDown={(e) => e.key === 'Enter' && confirmReject()}
+              autoFocus
+            />
+            <Button size="xs" color="red" onClick={confirmReject}>
+              Confirm reject
+            </Button>
+            <Button size="xs" variant="subtle" onClick={() => setIsRejecting(false)}>
+              Cancel
+            </Button>
+          </Group>
+        ) : (
+          <Group gap="xs">
+            <Button
+              size="xs"
+              variant="outline"
+              color="green"
+              onClick={() => onApprove(draft, diff, proposal)}
+            >
+              {isEdited ? 'Approve with edits' : 'Approve'}
+            </Button>
+            {isEdited && (
+              <Button size="xs" variant="subtle" onClick={() => setDraft(proposal)}>
+                Reset
+              </Button>
+            )}
+            <Button size="xs" variant="outline" color="red" onClick={() => setIsRejecting(true)}>
+              Reject
+            </Button>
+          </Group>
+        )}
+      </Stack>
+    </Card>
+  );
+}
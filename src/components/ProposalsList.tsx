@@ -1,11 +1,12 @@
 import React from 'react';
-import { Stack, Text, Button } from '@mantine/core';
-import { Proposal } from '../types';
+import { Stack, Text } from '@mantine/core';
+import { ProposalCard } from './ProposalCard';
+import type { Proposal, ProposalDiff } from '../types';
 
 interface ProposalsListProps {
   proposals: Proposal[];
-  onApprove: (proposal: Proposal) => void;
-  onReject: (proposal: Proposal) => void;
+  onApprove: (corrected: Proposal, diff: ProposalDiff, original: Proposal) => void;
+  onReject: (proposal: Proposal, reason: string) => void;
 }
 
 export function ProposalsList({ proposals, onApprove, onReject }: ProposalsListProps) {
@@ -14,24 +15,13 @@ export function ProposalsList({ proposals, onApprove, onReject }: ProposalsListP
       <Text size="lg" fw={500}>
         Proposals:
       </Text>
-      {proposals.map((proposal, index) => (
-        <Stack key={index} gap="xs">
-          <Text>{JSON.stringify(proposal, null, 2)}</Text>
-          <div>
-            <Button size="xs" variant="outline" color="green" onClick={() => onApprove(proposal)}>
-              Approve
-            </Button>
-            <Button
-              size="xs"
-              variant="outline"
-              color="red"
-              style={{ marginLeft: '0.5rem' }}
-              onClick={() => onReject(proposal)}
-            >
-              Reject
-            </Button>
-          </div>
-        </Stack>
+      {proposals.map((proposal) => (
+        <ProposalCard
+          key={proposal.id}
+          proposal={proposal}
+          onApprove={onApprove}
+          onReject={onReject}
+        />
       ))}
     </Stack>
   );
@@ -0,0 +1,64 @@
+import React, { useEffect, useState } from 'react';
+import { Alert, Button, Code, Collapse, Group, Stack, Text } from '@mantine/core';
+import { subscribeToProtocolErrors, type ProtocolError } from '../services/socket';
+
+// Older errors drop off once this many are shown
+const MAX_ERRORS = 20;
+
+function ProtocolErrorRow({ error }: { error: ProtocolError }) {
+  const [showPayload, setShowPayload] = useState(false);
+
+  return (
+    <Stack gap={2}>
+      <Group gap="xs" wrap="nowrap">
+        <Text size="xs" c="dimmed">
+          {new Date(error.receivedAt).toLocaleTimeString()}
+        </Text>
+        <Text size="xs" fw={500}>
+          {error.event}
+        </Text>
+        <Text size="xs" truncate>
+          {error.message}
+        </Text>
+        <Button
+          size="compact-xs"
+          variant="subtle"
+          ml="auto"
+          onClick={() => setShowPayload((shown) => !shown)}
+        >
+          {showPayload ? 'Hide payload' : 'Payload'}
+        </Button>
+      </Group>
+      <Collapse in={showPayload}>
+        <Code block>{JSON.stringify(error.payload, null, 2)}</Code>
+      </Collapse>
+    </Stack>
+  );
+}
+
+/**
+ * Lists server messages that failed validation, newest first.
+ */
+export function ProtocolErrorPanel() {
+  const [errors, setErrors] = useState<{ key: number; error: ProtocolError }[]>([]);
+
+  useEffect(() => {
+    let nextKey = 0;
+    return subscribeToProtocolErrors((error) => {
+      const key = nextKey++;
+      setErrors((prev) => [{ key, error }, ...prev].slice(0, MAX_ERRORS));
+    });
+  }, []);
+
+  if (errors.length === 0) return null;
+
+  return (
+    <Alert color="orange" title="Malformed server messages" onClose={() => setErrors([])}>
+      <Stack gap="xs">
+        {errors.map(({ key, error }) => (
+          <ProtocolErrorRow key={key} error={error} />
+        ))}
+      </Stack>
+    </Alert>
+  );
+}
@@ -0,0 +1,42 @@
+import React from 'react';
+import { Group, NumberInput } from '@mantine/core';
+import type { RetryPolicy } from '../services/retryPolicy';
+
+interface RetryPolicySettingsProps {
+  policy: RetryPolicy;
+  onChange: (policy: RetryPolicy) => void;
+}
+
+export function RetryPolicySettings({ policy, onChange }: RetryPolicySettingsProps) {
+  return (
+    <Group gap="xs" align="flex-end">
+      <NumberInput
+        size="xs"
+        w={80}
+        label="Retries"
+        min={0}
+        max={20}
+        value={policy.maxRetries}
+        onChange={(value) => onChange({ ...policy, maxRetries: Number(value) || 0 })}
+      />
+      <NumberInput
+        size="xs"
+        w={100}
+        label="Timeout (ms)"
+        min={1000}
+        step={1000}
+        value={policy.timeoutMs}
+        onChange={(value) => onChange({ ...policy, timeoutMs: Number(value) || 1000 })}
+      />
+      <NumberInput
+        size="xs"
+        w={110}
+        label="Max backoff (ms)"
+        min={1000}
+        step={1000}
+        value={policy.maxDelayMs}
+        onChange={(value) => onChange({ ...policy, maxDelayMs: Number(value) || 1000 })}
+      />
+    </Group>
+  );
+}
@@ -0,0 +1,124 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Button, Group, Text } from '@mantine/core';
+import { getSegmentAudio, type StoredSegmentAudio } from '../services/segmentAudioStore';
+
+interface SegmentPlayerProps {
+  segmentId: string;
+}
+
+const WAVEFORM_HEIGHT = 24;
+
+function formatSeconds(ms: number) {
+  return `${(ms / 1000).toFixed(1)}s`;
+}
+
+/**
+ * Plays back one stored segment over its waveform. Clicking the waveform
+ * seeks to that point.
+ */
+export function SegmentPlayer({ segmentId }: SegmentPlayerProps) {
+  const [segment, setSegment] = useState<StoredSegmentAudio | null | undefined>(undefined);
+  const [url, setUrl] = useState<string | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let objectUrl: string | null = null;
+
+    getSegmentAudio(segmentId)
+      .then((stored) => {
+        if (cancelled) return;
+        setSegment(stored ?? null);
+        if (stored) {
+          objectUrl = URL.createObjectURL(new Blob([stored.audio], { type: stored.mimeType }));
+          setUrl(objectUrl);
+        }
+      })
+      .catch((err) => {
+        console.error('[PLAYBACK] Error loading segment audio:', err);
+        if (!cancelled) setSegment(null);
+      });
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [segmentId]);
+
+  if (segment === undefined) return null;
+  if (segment === null) {
+    return (
+      <Text size="xs" c="dimmed">
+        Audio no longer stored
+      </Text>
+    );
+  }
+
+  const togglePlayback = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (audio.paused) {
+      audio.play().catch((err) => console.error('[PLAYBACK] Error playing segment:', err));
+    } else {
+      audio.pause();
+    }
+  };
+
+  const seek = (event: React.MouseEvent<SVGSVGElement>) => {
+    const audio = audioRef.current;
+    if (!audio || !Number.isFinite(audio.duration)) return;
+    const rect = event.currentTarget.getBoundingClientRect();
+    audio.currentTime = ((event.clientX - rect.left) / rect.width) * audio.duration;
+  };
+
+  const barWidth = 100 / Math.max(1, segment.peaks.length);
+
+  return (
+    <Group gap="xs" wrap="nowrap">
+      {url && (
+        <audio
+          ref={audioRef}
+          src={url}
+          preload="auto"
+          onPlay={() => setIsPlaying(true)}
+          onPause={() => setIsPlaying(false)}
+          onTimeUpdate={(e) => {
+            const { currentTime, duration } = e.currentTarget;
+            setProgress(Number.isFinite(duration) && duration > 0 ? currentTime / duration : 0);
+          }}
+          onEnded={() => setProgress(0)}
+        />
+      )}
+      <Button size="compact-xs" variant="light" onClick={togglePlayback} w={52}>
+        {isPlaying ? 'Pause' : 'Play'}
+      </Button>
+      <svg
+        width={160}
+        height={WAVEFORM_HEIGHT}
+        viewBox={`0 0 100 ${WAVEFORM_HEIGHT}`}
+        preserveAspectRatio="none"
+        style={{ cursor: 'pointer' }}
+        onClick={seek}
+      >
+        {segment.peaks.map((peak, i) => {
+          const height = Math.max(1, peak * WAVEFORM_HEIGHT);
+          return (
+            <rect
+              key={i}
+              x={i * barWidth}
+              y={(WAVEFORM_HEIGHT - height) / 2}
+              width={barWidth * 0.8}
+              height={height}
+              fill={i / segment.peaks.length < progress ? '#228be6' : '#adb5bd'}
+            />
+          );
+        })}
+      </svg>
+      <Text size="xs" c="dimmed">
+        {formatSeconds(segment.durationMs)}
+      </Text>
+    </Group>
+  );
+}
@@ -0,0 +1,95 @@
+import React from 'react';
+import { Alert, Badge, Card, Group, Progress, Stack, Text } from '@mantine/core';
+import { clarificationPrompt } from '../services/semanticContext';
+import type { ContextProgressPayload } from '../services/protocol';
+import type { SemanticContext, SemanticUnit } from '../types';
+
+interface SemanticContextPanelProps {
+  context: SemanticContext;
+  units: SemanticUnit[];
+  progress: ContextProgressPayload | null;
+}
+
+function ItemList({ title, items }: { title: string; items?: string[] }) {
+  if (!items || items.length === 0) return null;
+  return (
+    <div>
+      <Text size="xs" fw={500} c="dimmed" tt="uppercase">
+        {title}
+      </Text>
+      <Group gap={4} mt={4}>
+        {items.map((item) => (
+          <Badge key={item} variant="light" size="sm" tt="none">
+            {item}
+          </Badge>
+        ))}
+      </Group>
+    </div>
+  );
+}
+
+export function SemanticContextPanel({ context, units, progress }: SemanticContextPanelProps) {
+  const clarifications = units.filter((u) => u.context.requires_clarification);
+  const confidence = Math.round(
+    context.confidence <= 1 ? context.confidence * 100 : context.confidence
+  );
+
+  return (
+    <Card withBorder padding="sm">
+      <Stack gap="sm">
+        <Group justify="space-between">
+          <Text fw={500}>What the assistant understood</Text>
+          <Badge color={context.isComplete ? 'green' : 'yellow'} variant="light">
+            {context.isComplete ? 'Complete' : 'Listening for more'}
+          </Badge>
+        </Group>
+
+        <div>
+          <Text size="xs" c="dimmed">
+            Confidence {confidence}%
+          </Text>
+          <Progress value={confidence} size="sm" />
+        </div>
+
+        {progress?.progress !== undefined && (
+          <div>
+            <Text size="xs" c="dimmed">
+              {progress.stage ?? 'Building context'}
+            </Text>
+            <Progress
+              value={progress.progress <= 1 ? progress.progress * 100 : progress.progress}
+              size="xs"
+              color="gray"
+            />
+          </div>
+        )}
+
+        {clarifications.map((unit) => (
+          <Alert key={unit.id} color="yellow" title="Needs clarification" p="xs">
+            <Text size="sm">{clarificationPrompt(unit)}</Text>
+          </Alert>
+        ))}
+
+        {units.length > 0 && (
+          <div>
+            <Text size="xs" fw={500} c="dimmed" tt="uppercase">
+              Recent statements
+            </Text>
+            <Stack gap={2} mt={4}>
+              {units.map((unit) => (
+                <Text key={unit.id} size="sm" c={unit.context.complete ? undefined : 'dimmed'}>
+                  {unit.text}
+                </Text>
+              ))}
+            </Stack>
+          </div>
+        )}
+
+        <ItemList title="Previous mentions" items={context.temporalContext?.previousMentions} />
+        <ItemList title="Related expenses" items={context.temporalContext?.relatedExpenses} />
+        <ItemList title="Learned patterns" items={context.learningContext?.userPatterns} />
+        <ItemList title="Common corrections" items={context.learningContext?.commonCorrections} />
+      </Stack>
+    </Card>
+  );
+}
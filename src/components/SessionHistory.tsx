@@ -0,0 +1,171 @@
+import React, { useEffect, useState } from 'react';
+import { Badge, Button, Card, Group, Stack, Text, TextInput } from '@mantine/core';
+import {
+  deleteSession,
+  listSessions,
+  matchesSessionQuery,
+  subscribeToSessions,
+  type RecordingSession,
+} from '../services/sessions';
+
+interface SessionHistoryProps {
+  activeSessionId: string | null;
+  // Opening, resuming and starting sessions is blocked while recording
+  locked: boolean;
+  onOpen: (session: RecordingSession) => void;
+  onResume: (session: RecordingSession) => void;
+  onRename: (id: string, name: string) => void;
+  onNew: () => void;
+}
+
+export function SessionHistory({
+  activeSessionId,
+  locked,
+  onOpen,
+  onResume,
+  onRename,
+  onNew,
+}: SessionHistoryProps) {
+  const [sessions, setSessions] = useState<RecordingSession[]>([]);
+  const [query, setQuery] = useState('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        setSessions(await listSessions());
+      } catch (err) {
+        console.error('[SESSION] Error loading sessions:', err);
+        setError(err instanceof Error ? err.message : String(err));
+      }
+    };
+
+    load();
+    return subscribeToSessions(load);
+  }, []);
+
+  const startRenaming = (session: RecordingSession) => {
+    setRenamingId(session.id);
+    setDraftName(session.name);
+  };
+
+  const saveRename = () => {
+    if (renamingId && draftName.trim()) onRename(renamingId, draftName.trim());
+    setRenamingId(null);
+  };
+
+  const remove = async (id: string) => {
+    try {
+      await deleteSession(id);
+    } catch (err) {
+      console.error('[SESSION] Error deleting session:', err);
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const visible = sessions.filter((session) => matchesSessionQuery(session, query));
+
+  return (
+    <Card withBorder padding="sm">
+      <Stack gap="xs">
+        <Group justify="space-between">
+          <Text size="sm" fw={500}>
+            Sessions
+          </Text>
+          <Button size="compact-xs" variant="light" onClick={onNew} disabled={locked}>
+            New session
+          </Button>
+        </Group>
+        <TextInput
+          size="xs"
+          placeholder="Search names, transcripts, proposals"
+          value={query}
+          onChange={(e) => setQuery(e.currentTarget.value)}
+        />
+        {error && (
+          <Text c="red" size="xs">
+            {error}
+          </Text>
+        )}
+        {visible.length === 0 && (
+          <Text size="xs" c="dimmed">
+            {sessions.length === 0 ? 'No sessions recorded yet.' : 'No matching sessions.'}
+          </Text>
+        )}
+        {visible.map((session) => {
+          const isActive = session.id === activeSessionId;
+          const decided = session.proposals.filter((p) => p.decision !== 'pending').length;
+          return (
+            <Stack key={session.id} gap={2}>
+              {renamingId === session.id ? (
+                <Group gap={4} wrap="nowrap">
+                  <TextInput
+                    size="xs"
+                    style={{ flex: 1 }}
+                    value={draftName}
+                    onChange={(e) => setDraftName(e.currentTarget.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') saveRename();
+                      if (e.key === 'Escape') setRenamingId(null);
+                    }}
+                    autoFocus
+                  />
+                  <Button size="compact-xs" onClick={saveRename}>
+                    Save
+                  </Button>
+                </Group>
+              ) : (
+                <Group gap={4} wrap="nowrap">
+                  <Text size="sm" fw={isActive ? 600 : 400} truncate style={{ flex: 1 }}>
+                    {session.name}
+                  </Text>
+                  {isActive && (
+                    <Badge size="xs" variant="light">
+                      {session.endedAt ? 'open' : 'active'}
+                    </Badge>
+                  )}
+                </Group>
+              )}
+              <Text size="xs" c="dimmed">
+                {new Date(session.startedAt).toLocaleString()} · {session.transcript.length}{' '}
+                segments · {decided}/{session.proposals.length} proposals decided
+              </Text>
+              <Group gap={4}>
+                <Button
+                  size="compact-xs"
+                  variant="subtle"
+                  onClick={() => onOpen(session)}
+                  disabled={locked || isActive}
+                >
+                  Open
+                </Button>
+                <Button
+                  size="compact-xs"
+                  variant="subtle"
+                  onClick={() => onResume(session)}
+                  disabled={locked || (isActive && !session.endedAt)}
+                >
+                  Resume
+                </Button>
+                <Button size="compact-xs" variant="subtle" onClick={() => startRenaming(session)}>
+                  Rename
+                </Button>
+                <Button
+                  size="compact-xs"
+                  variant="subtle"
+                  color="red"
+                  onClick={() => remove(session.id)}
+                  disabled={isActive}
+                >
+                  Delete
+                </Button>
+              </Group>
+            </Stack>
+          );
+        })}
+      </Stack>
+    </Card>
+  );
+}
@@ -0,0 +1,36 @@
+import React, { useState } from 'react';
+import { Button, Group, TextInput } from '@mantine/core';
+
+interface TextEntryProps {
+  onSubmit: (text: string) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Typed alternative to speaking, for when the microphone can't be used.
+ */
+export function TextEntry({ onSubmit, disabled }: TextEntryProps) {
+  const [text, setText] = useState('');
+
+  const submit = () => {
+    if (!text.trim()) return;
+    onSubmit(text.trim());
+    setText('');
+  };
+
+  return (
+    <Group gap="xs" wrap="nowrap" style={{ flex: 1 }}>
+      <TextInput
+        style={{ flex: 1 }}
+        placeholder="Or type an expense, e.g. “lunch with Sam, 14 euros”"
+        value={text}
+        onChange={(e) => setText(e.currentTarget.value)}
+        onKeyDown={(e) => e.key === 'Enter' && submit()}
+        disabled={disabled}
+      />
+      <Button variant="light" onClick={submit} disabled={disabled || !text.trim()}>
+        Send
+      </Button>
+    </Group>
+  );
+}
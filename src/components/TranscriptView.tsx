@@ -0,0 +1,147 @@
+import React, { useState } from 'react';
+import { Badge, Button, Group, Stack, Text, TextInput, Tooltip } from '@mantine/core';
+import { SegmentPlayer } from './SegmentPlayer';
+import type { TranscriptSegment } from '../types';
+
+interface TranscriptViewProps {
+  segments: TranscriptSegment[];
+  onCorrect: (sequenceId: number, text: string) => void;
+}
+
+function confidenceColor(confidence: number) {
+  if (confidence >= 0.85) return 'green';
+  if (confidence >= 0.6) return 'yellow';
+  return 'red';
+}
+
+function SegmentText({ segment }: { segment: TranscriptSegment }) {
+  switch (segment.status) {
+    case 'pending':
+      return (
+        <Text c="dimmed" fs="italic">
+          Transcribing…
+        </Text>
+      );
+    case 'interim':
+      return (
+        <Text c="dimmed" fs="italic">
+          {segment.text}
+        </Text>
+      );
+    case 'failed':
+      return (
+        <Text c="red" fs="italic">
+          Transcription failed
+        </Text>
+      );
+    default:
+      return segment.text ? <Text>{segment.text}</Text> : <Text c="dimmed">(no speech)</Text>;
+  }
+}
+
+export function TranscriptView({ segments, onCorrect }: TranscriptViewProps) {
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [draft, setDraft] = useState('');
+  const [playingId, setPlayingId] = useState<number | null>(null);
+
+  if (segments.length === 0) return null;
+
+  const startEditing = (segment: TranscriptSegment) => {
+    setEditingId(segment.sequenceId);
+    setDraft(segment.text);
+  };
+
+  const cancelEditing = () => {
+    setEditingId(null);
+    setDraft('');
+  };
+
+  const saveEditing = () => {
+    if (editingId === null) return;
+    onCorrect(editingId, draft.trim());
+    cancelEditing();
+  };
+
+  return (
+    <Stack gap={4}>
+      <Text size="sm" fw={500}>
+        Transcript
+      </Text>
+      {segments.map((segment) => (
+        <React.Fragment key={segment.sequenceId}>
+          <Group gap="xs" wrap="nowrap" align="flex-start">
+            <Text size="xs" c="dimmed" w={70} pt={4}>
+              {new Date(segment.capturedAt).toLocaleTimeString()}
+            </Text>
+            {editingId === segment.sequenceId ? (
+              <Group gap="xs" wrap="nowrap" style={{ flex: 1 }}>
+                <TextInput
+                  size="xs"
+                  style={{ flex: 1 }}
+                  value={draft}
+                  onChange={(e) => setDraft(e.currentTarget.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') saveEditing();
+                    if (e.key === 'Escape') cancelEditing();
+                  }}
+                  autoFocus
+                />
+                <Button size="xs" onClick={saveEditing} disabled={!draft.trim()}>
+                  Save
+                </Button>
+                <Button size="xs" variant="subtle" onClick={cancelEditing}>
+                  Cancel
+                </Button>
+              </Group>
+            ) : (
+              <>
+                <div style={{ flex: 1 }}>
+                  <SegmentText segment={segment} />
+                </div>
+                {segment.confidence !== undefined && (
+                  <Badge size="sm" variant="light" color={confidenceColor(segment.confidence)}>
+                    {Math.round(segment.confidence * 100)}%
+                  </Badge>
+                )}
+                {segment.source === 'text' && (
+                  <Badge size="sm" variant="outline" color="blue">
+                    typed
+                  </Badge>
+                )}
+                {segment.originalText !== undefined && (
+                  <Tooltip label={`Heard: “${segment.originalText}”`}>
+                    <Badge size="sm" variant="outline" color="gray">
+                      edited
+                    </Badge>
+                  </Tooltip>
+                )}
+                {segment.audio?.segmentId && (
+                  <Button
+                    size="compact-xs"
+                    variant="subtle"
+                    onClick={() =>
+                      setPlayingId(playingId === segment.sequenceId ? null : segment.sequenceId)
+                    }
+                  >
+                    {playingId === segment.sequenceId ? 'Hide audio' : 'Listen'}
+                  </Button>
+                )}
+                {/* Only speech can be misheard */}
+                {segment.status === 'final' && segment.text && segment.source !== 'text' && (
+                  <Button size="compact-xs" variant="subtle" onClick={() => startEditing(segment)}>
+                    Edit
+                  </Button>
+                )}
+              </>
+            )}
+          </Group>
+          {playingId === segment.sequenceId && segment.audio?.segmentId && (
+            <Group pl={78}>
+              <SegmentPlayer segmentId={segment.audio.segmentId} />
+            </Group>
+          )}
+        </React.Fragment>
+      ))}
+    </Stack>
+  );
+}
@@ -0,0 +1,185 @@
+import React, { useState } from 'react';
+import {
+  Alert,
+  Button,
+  Group,
+  Modal,
+  Progress,
+  SimpleGrid,
+  Stack,
+  Stepper,
+  Text,
+  TextInput,
+} from '@mantine/core';
+import {
+  measureLevels,
+  suggestVADTuning,
+  type CalibrationSuggestion,
+  type LevelStats,
+} from '../services/vadCalibration';
+import type { VADProfile, VADTuning } from '../types';
+
+interface VADCalibrationWizardProps {
+  opened: boolean;
+  baseTuning: VADTuning;
+  onClose: () => void;
+  onSave: (profile: VADProfile) => void;
+}
+
+const NOISE_DURATION_MS = 3000;
+const SPEECH_DURATION_MS = 4000;
+
+export function VADCalibrationWizard({
+  opened,
+  baseTuning,
+  onClose,
+  onSave,
+}: VADCalibrationWizardProps) {
+  const [step, setStep] = useState(0);
+  const [isMeasuring, setIsMeasuring] = useState(false);
+  const [level, setLevel] = useState(0);
+  const [noise, setNoise] = useState<LevelStats[] | null>(null);
+  const [suggestion, setSuggestion] = useState<CalibrationSuggestion | null>(null);
+  const [name, setName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const reset = () => {
+    setStep(0);
+    setNoise(null);
+    setSuggestion(null);
+    setName('');
+    setError(null);
+    setLevel(0);
+  };
+
+  const close = () => {
+    reset();
+    onClose();
+  };
+
+  // Record from a short-lived microphone stream of our own
+  const measure = async (durationMs: number) => {
+    setIsMeasuring(true);
+    setError(null);
+    let stream: MediaStream | null = null;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({
+        audio: {
+          channelCount: 1,
+          echoCancellation: true,
+          noiseSuppression: true,
+          autoGainControl: true,
+        },
+      });
+      return await measureLevels(stream, durationMs, baseTuning.smoothingTimeConstant, setLevel);
+    } catch (err) {
+      console.error('[CALIBRATION] Measurement failed:', err);
+      setError(err instanceof Error ? err.message : String(err));
+      return null;
+    } finally {
+      stream?.getTracks().forEach((track) => track.stop());
+      setIsMeasuring(false);
+      setLevel(0);
+    }
+  };
+
+  const measureNoise = async () => {
+    const stats = await measure(NOISE_DURATION_MS);
+    if (stats) {
+      setNoise(stats);
+      setStep(1);
+    }
+  };
+
+  const measureSpeech = async () => {
+    if (!noise) return;
+    const stats = await measure(SPEECH_DURATION_MS);
+    if (stats) {
+      setSuggestion(suggestVADTuning(noise, stats, baseTuning));
+      setStep(2);
+    }
+  };
+
+  const save = () => {
+    if (!suggestion) return;
+    onSave({
+      id: crypto.randomUUID(),
+      name: name.trim() || `Calibrated ${new Date().toLocaleString()}`,
+      tuning: suggestion.tuning,
+    });
+    close();
+  };
+
+  return (
+    <Modal opened={opened} onClose={close} title="Calibrate voice detection" size="lg">
+      <Stack gap="md">
+        <Stepper active={step} size="sm">
+          <Stepper.Step label="Background noise">
+            <Text size="sm" mt="sm">
+              Stay quiet for {NOISE_DURATION_MS / 1000} seconds so we can measure the room.
+            </Text>
+          </Stepper.Step>
+          <Stepper.Step label="Sample phrase">
+            <Text size="sm" mt="sm">
+              Now say something like “I spent twelve dollars on lunch today” at your normal volume.
+            </Text>
+          </Stepper.Step>
+          <Stepper.Step label="Review">
+            {suggestion && (
+              <Stack gap="xs" mt="sm">
+                {suggestion.margin < 0.05 && (
+                  <Alert color="yellow" title="Low separation">
+                    Your voice barely stands out from the background here. Try speaking closer to
+                    the microphone and calibrating again.
+                  </Alert>
+                )}
+                <SimpleGrid cols={3}>
+                  <Text size="sm">
+                    Band: {suggestion.band[0]}–{suggestion.band[1]} Hz
+                  </Text>
+                  <Text size="sm">Min noise: {suggestion.tuning.minNoiseLevel}</Text>
+                  <Text size="sm">Max noise: {suggestion.tuning.maxNoiseLevel}</Text>
+                  <Text size="sm">Multiplier: {suggestion.tuning.avgNoiseMultiplier}</Text>
+                  <Text size="sm">Margin: {suggestion.margin.toFixed(3)}</Text>
+                </SimpleGrid>
+                <TextInput
+                  label="Profile name"
+                  placeholder="e.g. Home office"
+                  value={name}
+                  onChange={(e) => setName(e.currentTarget.value)}
+                />
+              </Stack>
+            )}
+          </Stepper.Step>
+        </Stepper>
+
+        {isMeasuring && <Progress value={Math.min(100, level * 100)} animated />}
+
+        {error && (
+          <Alert color="red" title="Error">
+            {error}
+          </Alert>
+        )}
+
+        <Group justify="flex-end">
+          {step > 0 && (
+            <Button variant="subtle" onClick={reset} disabled={isMeasuring}>
+              Start over
+            </Button>
+          )}
+          {step === 0 && (
+            <Button onClick={measureNoise} loading={isMeasuring}>
+              Measure noise
+            </Button>
+          )}
+          {step === 1 && (
+            <Button onClick={measureSpeech} loading={isMeasuring}>
+              Record sample
+            </Button>
+          )}
+          {step === 2 && <Button onClick={save}>Save &amp; use profile</Button>}
+        </Group>
+      </Stack>
+    </Modal>
+  );
+}
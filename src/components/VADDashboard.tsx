@@ -0,0 +1,190 @@
+import React, { useEffect, useState } from 'react';
+import { Button, Card, Collapse, Group, Progress, SimpleGrid, Stack, Text } from '@mantine/core';
+import type { VADMetricsCollector } from '../services/vadMetrics';
+import type { VADMetrics } from '../types';
+
+interface VADDashboardProps {
+  collector: VADMetricsCollector;
+}
+
+// Cycles drawn in the history chart
+const CHART_CYCLES = 40;
+const CHART_HEIGHT = 60;
+
+function HistoryChart({
+  cycles,
+  value,
+  color,
+  label,
+}: {
+  cycles: VADMetrics[];
+  value: (cycle: VADMetrics) => number | null;
+  color: string;
+  label: string;
+}) {
+  const values = cycles.map(value);
+  const max = Math.max(1e-6, ...values.map((v) => v ?? 0));
+  const barWidth = 100 / CHART_CYCLES;
+
+  return (
+    <div>
+      <Text size="xs" c="dimmed">
+        {label} (max {max < 1 ? max.toFixed(2) : Math.round(max)})
+      </Text>
+      <svg
+        width="100%"
+        height={CHART_HEIGHT}
+        viewBox={`0 0 100 ${CHART_HEIGHT}`}
+        preserveAspectRatio="none"
+      >
+        {values.map((v, i) => {
+          const height = ((v ?? 0) / max) * CHART_HEIGHT;
+          return (
+            <rect
+              key={cycles[i].cycleId}
+              x={i * barWidth}
+              y={CHART_HEIGHT - height}
+              width={barWidth * 0.8}
+              height={height}
+              fill={cycles[i].discarded ? '#adb5bd' : color}
+            >
+              <title>
+                #{cycles[i].cycleId}: {v === null ? 'n/a' : v.toFixed(2)}
+              </title>
+            </rect>
+          );
+        })}
+      </svg>
+    </div>
+  );
+}
+
+function average(values: (number | null)[]): number | null {
+  const present = values.filter((v): v is number => v !== null);
+  return present.length ? present.reduce((a, b) => a + b, 0) / present.length : null;
+}
+
+export function VADDashboard({ collector }: VADDashboardProps) {
+  const [opened, setOpened] = useState(false);
+  const [history, setHistory] = useState<VADMetrics[]>(collector.getHistory());
+  const [amplitude, setAmplitude] = useState(0);
+
+  useEffect(() => {
+    setHistory(collector.getHistory());
+    return collector.subscribe(() => setHistory(collector.getHistory()));
+  }, [collector]);
+
+  // Poll the live amplitude only while the dashboard is visible
+  useEffect(() => {
+    if (!opened) return;
+    const interval = setInterval(() => setAmplitude(collector.currentAmplitude), 100);
+    return () => clearInterval(interval);
+  }, [opened, collector]);
+
+  const exportJSON = () => {
+    const blob = new Blob([collector.toJSON()], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `vad-metrics-${Date.now()}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const recent = history.slice(-CHART_CYCLES);
+  const kept = history.filter((c) => !c.discarded);
+  const avgDuration = average(kept.map((c) => c.duration));
+  const avgLatency = average(kept.map((c) => c.timeToTranscription));
+  const amplitudePercent = Math.min(100, Math.round(amplitude * 100));
+
+  return (
+    <Card withBorder padding="sm">
+      <Group justify="space-between">
+        <Text size="sm" fw={500}>
+          VAD metrics
+        </Text>
+        <Group gap="xs">
+          {opened && (
+            <>
+              <Button size="compact-xs" variant="subtle" onClick={() => collector.reset()}>
+                Clear
+              </Button>
+              <Button
+                size="compact-xs"
+                variant="outline"
+                onClick={exportJSON}
+                disabled={history.length === 0}
+              >
+                Export JSON
+              </Button>
+            </>
+          )}
+          <Button size="compact-xs" variant="subtle" onClick={() => setOpened((o) => !o)}>
+            {opened ? 'Hide' : 'Show'}
+          </Button>
+        </Group>
+      </Group>
+
+      <Collapse in={opened}>
+        <Stack gap="sm" mt="sm">
+          <div>
+            <Text size="xs" c="dimmed">
+              Live amplitude {amplitude.toFixed(3)}
+            </Text>
+            <Progress value={amplitudePercent} size="md" animated={false} />
+          </div>
+
+          <SimpleGrid cols={4}>
+            <div>
+              <Text size="xs" c="dimmed">
+                Cycles
+              </Text>
+              <Text fw={500}>{history.length}</Text>
+            </div>
+            <div>
+              <Text size="xs" c="dimmed">
+                Discarded
+              </Text>
+              <Text fw={500}>{collector.getDiscardedSegments()}</Text>
+            </div>
+            <div>
+              <Text size="xs" c="dimmed">
+                Avg segment
+              </Text>
+              <Text fw={500}>{avgDuration === null ? '—' : `${Math.round(avgDuration)} ms`}</Text>
+            </div>
+            <div>
+              <Text size="xs" c="dimmed">
+                Avg stop → text
+              </Text>
+              <Text fw={500}>{avgLatency === null ? '—' : `${Math.round(avgLatency)} ms`}</Text>
+            </div>
+          </SimpleGrid>
+
+          {recent.length > 0 && (
+            <>
+              <HistoryChart
+                cycles={recent}
+                value={(c) => c.duration}
+                color="#228be6"
+                label="Segment duration (ms)"
+              />
+              <HistoryChart
+                cycles={recent}
+                value={(c) => c.averageAmplitude}
+                color="#40c057"
+                label="Average amplitude"
+              />
+              <HistoryChart
+                cycles={recent}
+                value={(c) => c.timeToTranscription}
+                color="#fab005"
+                label="Voice stop → transcription (ms)"
+              />
+            </>
+          )}
+        </Stack>
+      </Collapse>
+    </Card>
+  );
+}
@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+import { Button, Group, Select, Text } from '@mantine/core';
+import { VADCalibrationWizard } from './VADCalibrationWizard';
+import { deleteVADProfile, listVADProfiles, saveVADProfile } from '../services/vadProfiles';
+import type { VADProfile } from '../types';
+
+interface VADProfilePanelProps {
+  activeProfile: VADProfile;
+  onChange: (profile: VADProfile) => void;
+}
+
+export function VADProfilePanel({ activeProfile, onChange }: VADProfilePanelProps) {
+  const [profiles, setProfiles] = useState<VADProfile[]>(listVADProfiles);
+  const [isCalibrating, setIsCalibrating] = useState(false);
+
+  const selectProfile = (id: string | null) => {
+    const profile = profiles.find((p) => p.id === id);
+    if (profile) onChange(profile);
+  };
+
+  const handleSave = (profile: VADProfile) => {
+    const saved = saveVADProfile(profile);
+    setProfiles(listVADProfiles());
+    onChange(saved);
+  };
+
+  const handleDelete = () => {
+    deleteVADProfile(activeProfile.id);
+    const remaining = listVADProfiles();
+    setProfiles(remaining);
+    onChange(remaining[0]);
+  };
+
+  const { tuning } = activeProfile;
+
+  return (
+    <div>
+      <Group gap="xs" align="flex-end">
+        <Select
+          size="xs"
+          label="VAD profile"
+          allowDeselect={false}
+          data={profiles.map((p) => ({ value: p.id, label: p.name }))}
+          value={activeProfile.id}
+          onChange={selectProfile}
+        />
+        <Button size="xs" variant="outline" onClick={() => setIsCalibrating(true)}>
+          Calibrate…
+        </Button>
+        {!activeProfile.builtIn && (
+          <Button size="xs" variant="subtle" color="red" onClick={handleDelete}>
+            Delete
+          </Button>
+        )}
+      </Group>
+      <Text size="xs" c="dimmed" mt={4}>
+        Noise {tuning.minNoiseLevel}–{tuning.maxNoiseLevel} × {tuning.avgNoiseMultiplier} ·{' '}
+        {tuning.minCaptureFreq}–{tuning.maxCaptureFreq} Hz · min segment {tuning.minSpeechDuration}{' '}
+        ms · pre-roll {tuning.audioBuffering.enabled ? tuning.audioBuffering.duration : 0} ms
+      </Text>
+      <VADCalibrationWizard
+        opened={isCalibrating}
+        baseTuning={tuning}
+        onClose={() => setIsCalibrating(false)}
+        onSave={handleSave}
+      />
+    </div>
+  );
+}
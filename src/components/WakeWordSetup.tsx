@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { Button, Card, Group, Text } from '@mantine/core';
+import {
+  MIN_WAKE_WORD_FRAMES,
+  WAKE_WORD_TAKES,
+  type WakeWordModel,
+} from '../services/recordingModes';
+
+interface WakeWordSetupProps {
+  model: WakeWordModel | null;
+  // Takes are recorded from the live capture, so only while listening
+  canRecord: boolean;
+  onRecordTake: () => Promise<number[][]>;
+  onChange: (model: WakeWordModel | null) => void;
+}
+
+export function WakeWordSetup({ model, canRecord, onRecordTake, onChange }: WakeWordSetupProps) {
+  const [takes, setTakes] = useState<number[][][]>([]);
+  const [isRecording, setIsRecording] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const recordTake = async () => {
+    setIsRecording(true);
+    setError(null);
+    try {
+      const features = await onRecordTake();
+      if (features.length < MIN_WAKE_WORD_FRAMES) {
+        setError("Didn't catch a word in that take, try again.");
+        return;
+      }
+      const next = [...takes, features];
+      if (next.length < WAKE_WORD_TAKES) {
+        setTakes(next);
+        return;
+      }
+      onChange({ templates: next, createdAt: Date.now() });
+      setTakes([]);
+    } catch (err) {
+      console.error('[WAKE] Error recording wake word:', err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsRecording(false);
+    }
+  };
+
+  return (
+    <Card withBorder padding="sm">
+      <Group justify="space-between">
+        <Text size="sm" fw={500}>
+          Wake word
+        </Text>
+        {model && takes.length === 0 && (
+          <Button size="compact-xs" variant="subtle" color="red" onClick={() => onChange(null)}>
+            Clear
+          </Button>
+        )}
+      </Group>
+      <Text size="xs" c="dimmed" mt={4}>
+        {model
+          ? `Trained ${new Date(model.createdAt).toLocaleString()}. Say it, then your expense.`
+          : `Say your wake word ${WAKE_WORD_TAKES} times to train it.`}
+      </Text>
+      {error && (
+        <Text size="xs" c="red" mt={4}>
+          {error}
+        </Text>
+      )}
+      <Group gap="xs" mt="xs">
+        <Button
+          size="xs"
+          variant="light"
+          onClick={recordTake}
+          loading={isRecording}
+          disabled={!canRecord}
+        >
+          {model && takes.length === 0
+            ? 'Retrain'
+            : `Record take ${takes.length + 1}/${WAKE_WORD_TAKES}`}
+        </Button>
+        {takes.length > 0 && (
+          <Button size="xs" variant="subtle" onClick={() => setTakes([])}>
+            Start over
+          </Button>
+        )}
+        {!canRecord && (
+          <Text size="xs" c="dimmed">
+            Start listening to record.
+          </Text>
+        )}
+      </Group>
+    </Card>
+  );
+}
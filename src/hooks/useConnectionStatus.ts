@@ -0,0 +1,21 @@
+import { useEffect, useState } from 'react';
+import {
+  getConnectionStatus,
+  subscribeToConnectionStatus,
+  type ConnectionStatus,
+} from '../services/socket';
+
+/**
+ * Tracks the live socket connection status.
+ */
+export function useConnectionStatus(): ConnectionStatus {
+  const [status, setStatus] = useState<ConnectionStatus>(getConnectionStatus);
+
+  useEffect(() => {
+    // Pick up anything that changed between render and subscribe
+    setStatus(getConnectionStatus());
+    return subscribeToConnectionStatus(setStatus);
+  }, []);
+
+  return status;
+}
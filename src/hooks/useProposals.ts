@@ -0,0 +1,24 @@
+import { useEffect, useState } from 'react';
+import type { VoiceExpenseEngine } from '../services/voiceExpenseEngine';
+import type { Proposal, ProposalDiff } from '../types';
+
+/**
+ * The session's proposals and their decisions. `pending` are the ones still
+ * waiting for approve or reject.
+ */
+export function useProposals(engine: VoiceExpenseEngine) {
+  const [proposals, setProposals] = useState(engine.getProposals);
+
+  useEffect(() => {
+    setProposals(engine.getProposals());
+    return engine.on('proposals', setProposals);
+  }, [engine]);
+
+  return {
+    proposals,
+    pending: proposals.filter((p) => p.decision === 'pending').map((p) => p.proposal),
+    approve: (proposal: Proposal, diff: ProposalDiff, original: Proposal) =>
+      engine.approve(proposal, diff, original),
+    reject: (proposal: Proposal, reason: string) => engine.reject(proposal, reason),
+  };
+}
@@ -0,0 +1,38 @@
+import { useEffect, useState } from 'react';
+import type { VoiceExpenseEngine } from '../services/voiceExpenseEngine';
+import type { IdentifiedSemanticUnit } from '../types';
+
+/**
+ * The engine's semantic context, recent units and context progress, with
+ * the clarification actions.
+ */
+export function useSemanticContext(engine: VoiceExpenseEngine) {
+  const { semantics } = engine;
+  const [semanticContext, setSemanticContext] = useState(semantics.getContext);
+  const [semanticUnits, setSemanticUnits] = useState(semantics.getUnits);
+  const [contextProgress, setContextProgress] = useState(semantics.getProgress);
+
+  useEffect(() => {
+    // Pick up anything that changed between render and subscribe
+    setSemanticContext(semantics.getContext());
+    setSemanticUnits(semantics.getUnits());
+    setContextProgress(semantics.getProgress());
+    const unsubscribers = [
+      engine.on('semanticContext', setSemanticContext),
+      engine.on('semanticUnits', setSemanticUnits),
+      engine.on('contextProgress', setContextProgress),
+    ];
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  }, [engine, semantics]);
+
+  return {
+    semanticContext,
+    semanticUnits,
+    contextProgress,
+    // The next voice segment answers the clarification currently on screen
+    activeClarification: semanticUnits.find((u) => u.context.requires_clarification) ?? null,
+    answerClarification: (unit: IdentifiedSemanticUnit, text: string) =>
+      engine.answerClarification(unit, text),
+    dismissClarification: (unit: IdentifiedSemanticUnit) => semantics.resolveClarification(unit.id),
+  };
+}
@@ -0,0 +1,45 @@
+import { useEffect, useState } from 'react';
+import { saveRetryPolicy, type RetryPolicy } from '../services/retryPolicy';
+import type { VoiceExpenseEngine } from '../services/voiceExpenseEngine';
+
+/**
+ * The engine's transcript and upload queue, with the actions that act on
+ * them.
+ */
+export function useTranscriptionQueue(engine: VoiceExpenseEngine) {
+  const { queue } = engine;
+  const [transcript, setTranscript] = useState(queue.getTranscript);
+  const [chunks, setChunks] = useState(queue.getChunks);
+  const [pendingChunks, setPendingChunks] = useState(queue.getPendingCount);
+  const [retryPolicy, setRetryPolicy] = useState(queue.retryPolicy);
+
+  useEffect(() => {
+    // Pick up anything that changed between render and subscribe
+    setTranscript(queue.getTranscript());
+    setChunks(queue.getChunks());
+    setPendingChunks(queue.getPendingCount());
+    const unsubscribers = [
+      engine.on('transcript', setTranscript),
+      engine.on('chunks', setChunks),
+      engine.on('pendingChunks', setPendingChunks),
+    ];
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  }, [engine, queue]);
+
+  return {
+    transcript,
+    chunks,
+    pendingChunks,
+    retryPolicy,
+    // Applies from the next attempt and is kept for later visits
+    updateRetryPolicy: (policy: RetryPolicy) => {
+      queue.retryPolicy = policy;
+      saveRetryPolicy(policy);
+      setRetryPolicy(policy);
+    },
+    retryChunk: (sequenceId: number) => queue.retry(sequenceId),
+    discardChunk: (sequenceId: number) => queue.discard(sequenceId),
+    sendText: (text: string) => engine.sendText(text),
+    correct: (sequenceId: number, text: string) => engine.correct(sequenceId, text),
+  };
+}
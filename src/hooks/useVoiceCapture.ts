@@ -0,0 +1,73 @@
+import { useEffect, useState } from 'react';
+import { isActive } from '../services/recorderState';
+import { PUSH_TO_TALK_KEY } from '../services/recordingModes';
+import { saveCaptureSettings, type CaptureSettings } from '../services/voiceCapture';
+import type { VoiceExpenseEngine } from '../services/voiceExpenseEngine';
+
+/**
+ * The engine's recorder state and capture settings. Settings changes are
+ * stored locally and applied to the engine. In push-to-talk mode, holding
+ * the key records too.
+ */
+export function useVoiceCapture(engine: VoiceExpenseEngine) {
+  const { capture } = engine;
+  const [state, setState] = useState(capture.getState);
+  const [settings, setSettings] = useState(capture.getSettings);
+
+  useEffect(() => {
+    setState(capture.getState());
+    return engine.on('state', setState);
+  }, [engine, capture]);
+
+  const updateSettings = (changes: Partial<CaptureSettings>) => {
+    capture.updateSettings(changes);
+    saveCaptureSettings(changes);
+    setSettings(capture.getSettings());
+  };
+
+  const isListening = isActive(state);
+
+  // Push-to-talk also works by holding the key, unless the user is typing
+  useEffect(() => {
+    if (!isListening || settings.recordingMode !== 'push-to-talk') return;
+
+    const isTyping = (target: EventTarget | null) =>
+      target instanceof HTMLElement &&
+      (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== PUSH_TO_TALK_KEY || e.repeat || isTyping(e.target)) return;
+      e.preventDefault();
+      capture.startPushToTalk();
+    };
+    const onKeyUp = (e: KeyboardEvent) => {
+      if (e.code !== PUSH_TO_TALK_KEY || isTyping(e.target)) return;
+      e.preventDefault();
+      capture.stopPushToTalk();
+    };
+    // The key-up is never seen if the window loses focus while it is held
+    const onBlur = () => capture.stopPushToTalk();
+
+    window.addEventListener('keydown', onKeyDown);
+    window.addEventListener('keyup', onKeyUp);
+    window.addEventListener('blur', onBlur);
+    return () => {
+      window.removeEventListener('keydown', onKeyDown);
+      window.removeEventListener('keyup', onKeyUp);
+      window.removeEventListener('blur', onBlur);
+    };
+  }, [capture, isListening, settings.recordingMode]);
+
+  return {
+    state,
+    isListening,
+    isInitializing: state.status === 'initializing',
+    settings,
+    updateSettings,
+    start: (resumeFrom: number | null) => capture.start(resumeFrom),
+    stop: () => capture.stop(),
+    resumeAudio: () => capture.resumeAudio(),
+    startPushToTalk: () => capture.startPushToTalk(),
+    stopPushToTalk: () => capture.stopPushToTalk(),
+    recordWakeWordTake: () => capture.recordWakeWordTake(),
+  };
+}
@@ -0,0 +1,22 @@
+import { useEffect, useState } from 'react';
+import { browserStorage, socketTransport } from '../services/engineAdapters';
+import { loadRetryPolicy } from '../services/retryPolicy';
+import { loadCaptureSettings } from '../services/voiceCapture';
+import { VoiceExpenseEngine } from '../services/voiceExpenseEngine';
+
+/**
+ * Creates one VoiceExpenseEngine for the component's lifetime, with the
+ * stored capture settings and retry policy, the shared socket and IndexedDB,
+ * and attaches it to the server while mounted.
+ */
+export function useVoiceExpenseEngine(): VoiceExpenseEngine {
+  const [engine] = useState(() => {
+    const created = new VoiceExpenseEngine(loadCaptureSettings(), socketTransport, browserStorage);
+    created.queue.retryPolicy = loadRetryPolicy();
+    return created;
+  });
+
+  useEffect(() => engine.attach(), [engine]);
+
+  return engine;
+}
@@ -2,6 +2,10 @@ import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
 import './index.css';
 import App from './App';
+import { configureSocket } from './services/socket';
+import { loadConnectionSettings } from './services/settings';
+
+configureSocket(loadConnectionSettings());
 
 createRoot(document.getElementById('root')).render(
   <StrictMode>
@@ -0,0 +1,107 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AudioCapture } from './audioCapture';
+
+const SAMPLE_RATE = 48000;
+// One render quantum
+const QUANTUM = 128;
+
+class FakePort {
+  onmessage: ((e: MessageEvent) => void) | null = null;
+  postMessage = vi.fn();
+}
+
+class FakeAudioWorkletNode {
+  static last: FakeAudioWorkletNode;
+  port = new FakePort();
+  disconnect = vi.fn();
+  constructor() {
+    FakeAudioWorkletNode.last = this;
+  }
+}
+
+class FakeAudioContext {
+  sampleRate = SAMPLE_RATE;
+  state = 'running';
+  audioWorklet = { addModule: vi.fn(async () => {}) };
+  createMediaStreamSource() {
+    return { connect: vi.fn(), disconnect: vi.fn() };
+  }
+  resume = vi.fn(async () => {});
+  close = vi.fn(async () => {});
+}
+
+// Posts quanta whose samples are their absolute capture positions, starting
+// at `clock` on the audio clock
+function feed(from: number, quanta: number, clock = 1_000_000) {
+  const port = FakeAudioWorkletNode.last.port;
+  for (let q = 0; q < quanta; q++) {
+    const start = from + q * QUANTUM;
+    const samples = Float32Array.from({ length: QUANTUM }, (_, i) => start + i);
+    port.onmessage?.({ data: { type: 'audio', samples, position: clock + start } } as MessageEvent);
+  }
+}
+
+describe('AudioCapture pre-roll', () => {
+  beforeEach(() => {
+    vi.stubGlobal('AudioContext', FakeAudioContext);
+    vi.stubGlobal('AudioWorkletNode', FakeAudioWorkletNode);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('prepends exactly N ms of pre-roll to a segment', async () => {
+    const capture = await AudioCapture.start({} as MediaStream);
+    feed(0, 500);
+
+    const start = capture.preRollStart(300);
+    const preRollSamples = (300 / 1000) * SAMPLE_RATE;
+    expect(capture.position - start).toBe(preRollSamples);
+
+    // Speech continues for another 40 quanta after the segment opens
+    feed(500 * QUANTUM, 40);
+    const segment = capture.slice(start);
+
+    expect(segment).toHaveLength(preRollSamples + 40 * QUANTUM);
+    expect(segment[0]).toBe(500 * QUANTUM - preRollSamples);
+    expect(segment[preRollSamples]).toBe(500 * QUANTUM);
+  });
+
+  it('gives only what was captured when the pre-roll reaches before the start', async () => {
+    const capture = await AudioCapture.start({} as MediaStream);
+    feed(0, 10);
+
+    const start = capture.preRollStart(300);
+    expect(start).toBeLessThan(0);
+    expect(capture.slice(start)).toHaveLength(10 * QUANTUM);
+  });
+
+  it('keeps pre-roll aligned with the audio clock across dropped quanta', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const capture = await AudioCapture.start({} as MediaStream);
+    feed(0, 200);
+    // Quanta 200..209 never reach the main thread
+    feed(210 * QUANTUM, 200);
+
+    expect(capture.position).toBe(410 * QUANTUM);
+    const start = capture.preRollStart(100);
+    const segment = capture.slice(start);
+    expect(segment).toHaveLength((100 / 1000) * SAMPLE_RATE);
+    expect(segment[segment.length - 1]).toBe(410 * QUANTUM - 1);
+  });
+
+  it('clamps a pre-roll start that has been overwritten', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const capture = await AudioCapture.start({} as MediaStream, 100);
+    feed(0, 100);
+
+    const start = capture.preRollStart(300);
+    const segment = capture.slice(start);
+    expect(segment).toHaveLength((100 / 1000) * SAMPLE_RATE);
+    expect(segment[0]).toBe(100 * QUANTUM - segment.length);
+    expect(console.warn).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * audioCapture.ts
+ *
+ * The single microphone capture path. An AudioWorklet posts every render
+ * quantum to the main thread together with its position on the audio clock,
+ * and a SampleRingBuffer keeps the most recent samples indexed by that
+ * absolute sample position. Voice segments are sliced straight out of the
+ * buffer, so pre-roll, the segment body and split overlaps come from the
+ * same samples with no seams.
+ */
+import { msToSamples, SampleRingBuffer, samplesToMs } from './ringBuffer';
+
+// Enough for a maximum-length segment plus its pre-roll and overlap
+const DEFAULT_CAPACITY_MS = 90_000;
+
+interface WorkletFrame {
+  type: 'audio';
+  samples: Float32Array;
+  // Absolute position (currentFrame) of the first sample on the audio clock
+  position: number;
+}
+
+// The worklet's keyword spotter heard the wake word, ending around `position`
+interface WorkletWake {
+  type: 'wake';
+  position: number;
+  // Match distance relative to the threshold; lower is closer
+  score: number;
+}
+
+interface WorkletFeatures {
+  type: 'features';
+  requestId: number;
+  features: number[][];
+}
+
+type WorkletMessage = WorkletFrame | WorkletWake | WorkletFeatures;
+
+export class AudioCapture {
+  private ring: SampleRingBuffer;
+  private origin: number | null = null;
+  private nextRequestId = 0;
+  private featureRequests = new Map<number, (features: number[][]) => void>();
+  // Called with the capture position just after the wake word
+  onWake: ((position: number) => void) | null = null;
+
+  private constructor(
+    readonly audioContext: AudioContext,
+    private source: MediaStreamAudioSourceNode,
+    private processor: AudioWorkletNode,
+    readonly capacityMs: number
+  ) {
+    this.ring = SampleRingBuffer.forDuration(capacityMs, audioContext.sampleRate);
+    processor.port.onmessage = (e: MessageEvent<WorkletMessage>) => this.handleMessage(e.data);
+  }
+
+  /**
+   * Creates an AudioContext for `stream` and starts filling the buffer.
+   */
+  static async start(stream: MediaStream, capacityMs = DEFAULT_CAPACITY_MS) {
+    const audioContext = new AudioContext();
+    if (audioContext.state === 'suspended') {
+      await audioContext.resume();
+    }
+
+    // Load custom audio processor worklet for handling raw audio data
+    await audioContext.audioWorklet.addModule('/audio-processor.js');
+    const source = audioContext.createMediaStreamSource(stream);
+    const processor = new AudioWorkletNode(audioContext, 'audio-processor');
+    source.connect(processor);
+
+    console.log('[CAPTURE] Started at', audioContext.sampleRate, 'Hz');
+    return new AudioCapture(audioContext, source, processor, capacityMs);
+  }
+
+  get sampleRate() {
+    return this.audioContext.sampleRate;
+  }
+
+  // Absolute position just past the newest sample
+  get position() {
+    return this.ring.position;
+  }
+
+  /**
+   * The position `ms` before the newest sample, where a segment starts so
+   * that exactly that much pre-roll precedes it once it has been captured.
+   */
+  preRollStart(ms: number) {
+    return this.ring.position - msToSamples(ms, this.sampleRate);
+  }
+
+  msToSamples(ms: number) {
+    return msToSamples(ms, this.sampleRate);
+  }
+
+  samplesToMs(samples: number) {
+    return samplesToMs(samples, this.sampleRate);
+  }
+
+  private handleMessage(message: WorkletMessage) {
+    switch (message.type) {
+      case 'audio':
+        this.write(message);
+        break;
+      case 'wake':
+        if (this.origin === null) return;
+        console.log('[CAPTURE] Wake word detected, score:', message.score.toFixed(2));
+        this.onWake?.(message.position - this.origin);
+        break;
+      case 'features':
+        this.featureRequests.get(message.requestId)?.(message.features);
+        this.featureRequests.delete(message.requestId);
+        break;
+    }
+  }
+
+  private write({ samples, position }: WorkletFrame) {
+    // Positions count from the first frame we received
+    this.origin ??= position;
+    const expected = this.ring.position;
+    const actual = position - this.origin;
+
+    // Quanta the main thread never saw are filled with silence to keep
+    // positions aligned with the audio clock
+    if (actual > expected) {
+      console.warn('[CAPTURE] Dropped', actual - expected, 'samples');
+      this.ring.write(new Float32Array(actual - expected));
+    }
+    this.ring.write(samples);
+  }
+
+  /**
+   * Copies the samples in [start, end). The range is clamped to what the
+   * buffer still holds.
+   */
+  slice(start: number, end = this.ring.position): Float32Array {
+    const oldest = this.ring.oldestPosition;
+    // Before the buffer first fills, a short pre-roll is expected
+    if (oldest > 0 && start < oldest) {
+      console.warn('[CAPTURE] Requested audio has been overwritten:', oldest - start, 'samples');
+    }
+    return this.ring.slice(start, end);
+  }
+
+  /**
+   * Turns the worklet's keyword spotter on with these templates (MFCC frames
+   * from extractFeatures), or off with null.
+   */
+  setWakeWord(templates: number[][][] | null) {
+    this.processor.port.postMessage({ type: 'templates', templates });
+  }
+
+  /**
+   * Computes wake-word features for a recording, trimmed of silence, with
+   * the same code the spotter uses.
+   */
+  extractFeatures(samples: Float32Array): Promise<number[][]> {
+    const requestId = this.nextRequestId++;
+    return new Promise((resolve) => {
+      this.featureRequests.set(requestId, resolve);
+      this.processor.port.postMessage({ type: 'extract', requestId, samples });
+    });
+  }
+
+  async close() {
+    this.processor.port.onmessage = null;
+    this.onWake = null;
+    this.featureRequests.forEach((resolve) => resolve([]));
+    this.featureRequests.clear();
+    this.source.disconnect();
+    this.processor.disconnect();
+    if (this.audioContext.state !== 'closed') {
+      await this.audioContext.close();
+    }
+  }
+}
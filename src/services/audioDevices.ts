@@ -0,0 +1,80 @@
+/**
+ * audioDevices.ts
+ *
+ * Which microphone to capture from, and the browser's processing
+ * constraints for each one (a headset may want echo cancellation off while
+ * a laptop mic wants it on). Remembered in local settings.
+ */
+import { readStoredJSON, writeStoredJSON } from './settings';
+
+const MICROPHONE_KEY = 'agent-test-client:microphone';
+
+export interface AudioProcessingConstraints {
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
+  autoGainControl: boolean;
+}
+
+export const DEFAULT_PROCESSING: AudioProcessingConstraints = {
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+};
+
+// Key used for the browser's default device in `processing`
+export const DEFAULT_DEVICE = 'default';
+
+export interface MicrophoneSettings {
+  // null follows the browser's default device
+  deviceId: string | null;
+  processing: Record<string, AudioProcessingConstraints>;
+}
+
+export function loadMicrophoneSettings(): MicrophoneSettings {
+  return readStoredJSON<MicrophoneSettings>(MICROPHONE_KEY) ?? { deviceId: null, processing: {} };
+}
+
+export function saveMicrophoneSettings(settings: MicrophoneSettings) {
+  writeStoredJSON(MICROPHONE_KEY, settings);
+}
+
+export function processingFor(
+  settings: MicrophoneSettings,
+  deviceId = settings.deviceId
+): AudioProcessingConstraints {
+  return { ...DEFAULT_PROCESSING, ...settings.processing[deviceId ?? DEFAULT_DEVICE] };
+}
+
+export async function listMicrophones(): Promise<MediaDeviceInfo[]> {
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter((device) => device.kind === 'audioinput');
+}
+
+export function buildAudioConstraints(settings: MicrophoneSettings): MediaTrackConstraints {
+  return {
+    ...(settings.deviceId ? { deviceId: { exact: settings.deviceId } } : {}),
+    channelCount: 1,
+    sampleRate: 48000,
+    ...processingFor(settings),
+  };
+}
+
+/**
+ * Opens the chosen microphone, falling back to the default device if it
+ * has been unplugged.
+ */
+export async function openMicrophone(settings: MicrophoneSettings): Promise<MediaStream> {
+  try {
+    return await navigator.mediaDevices.getUserMedia({ audio: buildAudioConstraints(settings) });
+  } catch (err) {
+    const missing =
+      err instanceof DOMException &&
+      (err.name === 'OverconstrainedError' || err.name === 'NotFoundError');
+    if (!settings.deviceId || !missing) throw err;
+
+    console.warn('[DEVICES] Selected microphone unavailable, using the default:', err);
+    return navigator.mediaDevices.getUserMedia({
+      audio: buildAudioConstraints({ ...settings, deviceId: null }),
+    });
+  }
+}
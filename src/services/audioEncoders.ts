@@ -0,0 +1,76 @@
+/**
+ * audioEncoders.ts
+ *
+ * Interchangeable encoders for captured segments. One is chosen when a
+ * listening session starts and advertised with every chunk it produces.
+ */
+import { encodeWAV } from './audioMerging';
+import { encodeFLAC } from './flacEncoder';
+import { encodeOpusWebM, isOpusSupported } from './opusEncoder';
+import { readStoredJSON, writeStoredJSON } from './settings';
+import type { AudioCodec, AudioEncodingInfo } from '../types';
+
+const CODEC_KEY = 'agent-test-client:audio-codec';
+
+export interface SegmentEncoder {
+  codec: AudioCodec;
+  label: string;
+  mimeType: string;
+  isSupported: (sampleRate: number) => Promise<boolean>;
+  encode: (samples: Float32Array, sampleRate: number) => Promise<ArrayBuffer>;
+}
+
+export const SEGMENT_ENCODERS: SegmentEncoder[] = [
+  {
+    codec: 'wav',
+    label: 'WAV (16-bit PCM)',
+    mimeType: 'audio/wav',
+    isSupported: async () => true,
+    encode: (samples, sampleRate) => encodeWAV(samples, sampleRate).arrayBuffer(),
+  },
+  {
+    codec: 'flac',
+    label: 'FLAC (lossless)',
+    mimeType: 'audio/flac',
+    isSupported: async () => true,
+    encode: async (samples, sampleRate) => encodeFLAC(samples, sampleRate),
+  },
+  {
+    codec: 'opus-webm',
+    label: 'Opus / WebM',
+    mimeType: 'audio/webm;codecs=opus',
+    isSupported: isOpusSupported,
+    encode: encodeOpusWebM,
+  },
+];
+
+export function getSegmentEncoder(codec: AudioCodec): SegmentEncoder {
+  return SEGMENT_ENCODERS.find((e) => e.codec === codec) ?? SEGMENT_ENCODERS[0];
+}
+
+export function loadPreferredCodec(): AudioCodec {
+  const stored = readStoredJSON<AudioCodec>(CODEC_KEY);
+  return SEGMENT_ENCODERS.some((e) => e.codec === stored) ? stored! : 'wav';
+}
+
+export function savePreferredCodec(codec: AudioCodec) {
+  writeStoredJSON(CODEC_KEY, codec);
+}
+
+/**
+ * Picks the encoder for a session, falling back to WAV when the preferred
+ * one can't run at this sample rate.
+ */
+export async function resolveSessionEncoder(
+  preferred: AudioCodec,
+  sampleRate: number
+): Promise<SegmentEncoder> {
+  const encoder = getSegmentEncoder(preferred);
+  if (await encoder.isSupported(sampleRate)) return encoder;
+  console.warn('[ENCODER] Unsupported at', sampleRate, 'Hz, falling back to WAV:', preferred);
+  return SEGMENT_ENCODERS[0];
+}
+
+export function encodingInfo(encoder: SegmentEncoder, sampleRate: number): AudioEncodingInfo {
+  return { codec: encoder.codec, mimeType: encoder.mimeType, sampleRate, channels: 1 };
+}
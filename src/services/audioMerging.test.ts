@@ -0,0 +1,193 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_DSP_OPTIONS,
+  dbToGain,
+  normalizeLoudness,
+  processSegment,
+  resample,
+  StreamResampler,
+  trimSilence,
+} from './audioMerging';
+
+function tone(frequency: number, sampleRate: number, length: number, amplitude = 0.5) {
+  return Float32Array.from(
+    { length },
+    (_, i) => amplitude * Math.sin((2 * Math.PI * frequency * i) / sampleRate)
+  );
+}
+
+function concat(...parts: Float32Array[]) {
+  const out = new Float32Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+// Amplitude of the `frequency` component, by correlation over whole cycles
+function amplitudeAt(samples: Float32Array, frequency: number, sampleRate: number) {
+  let re = 0;
+  let im = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const phase = (2 * Math.PI * frequency * i) / sampleRate;
+    re += samples[i] * Math.cos(phase);
+    im += samples[i] * Math.sin(phase);
+  }
+  return (2 * Math.hypot(re, im)) / samples.length;
+}
+
+function rmsOf(samples: Float32Array) {
+  return Math.sqrt(samples.reduce((sum, s) => sum + s * s, 0) / samples.length);
+}
+
+function peakOf(samples: Float32Array) {
+  return samples.reduce((max, s) => Math.max(max, Math.abs(s)), 0);
+}
+
+// Drops the edges, where the kernel runs off the end of the input
+function middle(samples: Float32Array, margin: number) {
+  return samples.subarray(margin, samples.length - margin);
+}
+
+describe('resample', () => {
+  it('keeps the amplitude and frequency of a tone from 48 kHz to 16 kHz', () => {
+    const out = resample(tone(1000, 48000, 48000), 48000, 16000);
+    expect(out).toHaveLength(16000);
+
+    // 14400 samples is a whole number of 1 kHz cycles at 16 kHz
+    const body = out.subarray(800, 15200);
+    expect(amplitudeAt(body, 1000, 16000)).toBeCloseTo(0.5, 2);
+    // The energy is at 1 kHz and not at a neighbouring frequency
+    expect(amplitudeAt(body, 1100, 16000)).toBeLessThan(0.01);
+    expect(peakOf(body)).toBeCloseTo(0.5, 2);
+  });
+
+  it('rejects a tone above the new Nyquist', () => {
+    const out = resample(tone(12000, 48000, 48000), 48000, 16000);
+    const leaked = rmsOf(middle(out, 200));
+    // Well over 40 dB below the input's 0.35 RMS
+    expect(20 * Math.log10(leaked / (0.5 / Math.SQRT2))).toBeLessThan(-40);
+  });
+
+  it('keeps a tone through a rate pair with many kernel phases', () => {
+    // 44.1 kHz to 16 kHz cycles through 160 fractional positions
+    const out = resample(tone(1000, 44100, 44100), 44100, 16000);
+    expect(out).toHaveLength(16000);
+
+    const body = out.subarray(800, 15200);
+    expect(amplitudeAt(body, 1000, 16000)).toBeCloseTo(0.5, 2);
+    expect(amplitudeAt(body, 1100, 16000)).toBeLessThan(0.01);
+  });
+
+  it('returns the input when the rates match', () => {
+    const samples = tone(440, 16000, 100);
+    expect(resample(samples, 16000, 16000)).toBe(samples);
+  });
+});
+
+describe('StreamResampler', () => {
+  it.each([
+    [48000, 16000],
+    [44100, 16000],
+  ])('matches resample() from %i Hz to %i Hz when fed in uneven pieces', (from, to) => {
+    const input = tone(700, from, 14400);
+    const expected = resample(input, from, to);
+
+    const stream = new StreamResampler(from, to);
+    const outputs: Float32Array[] = [];
+    const pieces = [1, 127, 128, 500, 3, 2048, 4000];
+    let offset = 0;
+    for (let i = 0; offset < input.length; i++) {
+      const size = pieces[i % pieces.length];
+      outputs.push(stream.push(input.subarray(offset, offset + size)));
+      offset += size;
+    }
+    outputs.push(stream.flush());
+    const streamed = concat(...outputs);
+
+    expect(streamed).toHaveLength(expected.length);
+    for (let i = 0; i < expected.length; i++) {
+      expect(Math.abs(streamed[i] - expected[i])).toBeLessThan(1e-6);
+    }
+  });
+});
+
+describe('trimSilence', () => {
+  const rate = 16000;
+  const silence = (ms: number) => new Float32Array((ms / 1000) * rate);
+
+  it('keeps the padding either side of the audible part', () => {
+    const samples = concat(silence(500), tone(440, rate, 3200), silence(500));
+    const trimmed = trimSilence(samples, rate, -50, 100);
+
+    // 200 ms of tone plus 100 ms of padding on each side
+    expect(trimmed).toHaveLength(3200 + 2 * 1600);
+    expect(Array.from(trimmed.subarray(0, 1600)).every((s) => s === 0)).toBe(true);
+    expect(trimmed[1601]).not.toBe(0);
+  });
+
+  it('clamps the padding at the segment edges', () => {
+    const samples = concat(tone(440, rate, 3200), silence(50));
+    const trimmed = trimSilence(samples, rate, -50, 100);
+    expect(trimmed).toHaveLength(samples.length);
+  });
+
+  it('leaves a segment with no audible window unchanged', () => {
+    const samples = tone(440, rate, 1600, dbToGain(-70));
+    expect(trimSilence(samples, rate, -50, 100)).toBe(samples);
+  });
+});
+
+describe('normalizeLoudness', () => {
+  it('brings the RMS level to the target', () => {
+    const out = normalizeLoudness(tone(440, 16000, 16000, 0.1), 'rms', -20, 20);
+    expect(rmsOf(out)).toBeCloseTo(dbToGain(-20), 4);
+  });
+
+  it('brings the peak level to the target', () => {
+    const out = normalizeLoudness(tone(440, 16000, 16000, 0.1), 'peak', -6, 20);
+    expect(peakOf(out)).toBeCloseTo(dbToGain(-6), 3);
+  });
+
+  it('applies no more than maxGainDb', () => {
+    const out = normalizeLoudness(tone(440, 16000, 16000, 0.001), 'rms', -20, 20);
+    // 20 dB is a gain of 10, well short of the target
+    expect(peakOf(out)).toBeCloseTo(0.01, 4);
+  });
+
+  it('never pushes the peak past MAX_PEAK', () => {
+    const samples = tone(440, 16000, 16000, 0.05);
+    samples[100] = 0.5;
+    const out = normalizeLoudness(samples, 'rms', -3, 40);
+    expect(peakOf(out)).toBeCloseTo(0.99, 6);
+  });
+
+  it('leaves silence and the none mode alone', () => {
+    const silent = new Float32Array(100);
+    expect(normalizeLoudness(silent, 'rms', -20, 20)).toBe(silent);
+    const samples = tone(440, 16000, 100);
+    expect(normalizeLoudness(samples, 'none', -20, 20)).toBe(samples);
+  });
+});
+
+describe('processSegment', () => {
+  it('trims, resamples and normalizes', () => {
+    const rate = 48000;
+    const samples = concat(new Float32Array(24000), tone(1000, rate, 48000, 0.05));
+    const out = processSegment(samples, rate, DEFAULT_DSP_OPTIONS);
+
+    expect(out.sampleRate).toBe(16000);
+    // The leading 500 ms of silence is cut down to the 150 ms padding
+    expect(out.samples.length).toBeCloseTo((48000 + 7200) / 3, -1);
+    // The level is measured over the whole segment, padding included
+    expect(rmsOf(out.samples)).toBeCloseTo(dbToGain(-20), 3);
+  });
+
+  it('keeps the edges of split parts', () => {
+    const samples = concat(new Float32Array(4800), tone(1000, 48000, 4800));
+    const out = processSegment(samples, 48000, DEFAULT_DSP_OPTIONS, true);
+    expect(out.samples).toHaveLength(3200);
+  });
+});
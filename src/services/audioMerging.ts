@@ -1,71 +1,11 @@
 /**
  * audioMerging.ts
  *
- * This file contains helper functions that:
- * 1) Flatten an array of Float32Array chunks (the "pre-recording buffer"),
- * 2) Decode a recorded audio Blob into raw Float32 samples,
- * 3) Merge them into one continuous set of samples,
- * 4) Encode back into a WAV Blob.
+ * Prepares raw Float32 samples sliced from the capture buffer for upload:
+ * a DSP stage (resampling, silence trimming, loudness normalization) and a
+ * WAV encoder.
  */
-
-/**
- * Merges pre-recorded Float32 samples with the recorded Blob from RecordRTC.
- *
- * @param preBufferFrames   An array of Float32Arrays representing buffered audio frames
- * @param recordedBlob      The final Blob produced by RecordRTC
- * @param audioContext      An AudioContext used for decoding
- * @returns                 A Promise that resolves to a merged WAV Blob
- */
-export async function mergePreRecordingBufferWithRecordedAudio(
-  preBufferFrames: Float32Array[],
-  recordedBlob: Blob,
-  audioContext: AudioContext | null
-): Promise<Blob> {
-  // If there's no valid audioContext, return the original blob (fallback)
-  if (!audioContext) {
-    console.warn('[merge] No audioContext provided, skipping merge.');
-    return recordedBlob;
-  }
-
-  // 1) Flatten all frames from preBufferFrames
-  const flattenedPreBuffer = flattenFloat32Arrays(preBufferFrames);
-
-  // 2) Decode the recorded Blob into Float32 samples
-  const recordedArrayBuffer = await recordedBlob.arrayBuffer();
-  const recordedAudioBuffer = await audioContext.decodeAudioData(recordedArrayBuffer);
-  const recordedSamples = recordedAudioBuffer.getChannelData(0); // assuming mono
-
-  // 3) Merge them into one continuous Float32Array
-  const mergedLength = flattenedPreBuffer.length + recordedSamples.length;
-  const mergedSamples = new Float32Array(mergedLength);
-
-  mergedSamples.set(flattenedPreBuffer, 0);
-  mergedSamples.set(recordedSamples, flattenedPreBuffer.length);
-
-  // 4) Encode the merged float data back into a WAV Blob
-  const mergedBlob = encodeWAV(mergedSamples, recordedAudioBuffer.sampleRate);
-
-  return mergedBlob;
-}
-
-/**
- * Utility to flatten an array of Float32Array chunks into one Float32Array.
- */
-function flattenFloat32Arrays(chunks: Float32Array[]): Float32Array {
-  let totalLength = 0;
-  for (const c of chunks) {
-    totalLength += c.length;
-  }
-  const result = new Float32Array(totalLength);
-
-  let offset = 0;
-  for (const c of chunks) {
-    result.set(c, offset);
-    offset += c.length;
-  }
-
-  return result;
-}
+import { readStoredJSON, writeStoredJSON } from './settings';
 
 /**
  * Minimal WAV encoder that merges raw PCM float samples into a 16-bit PCM WAV buffer.
@@ -74,7 +14,7 @@ function flattenFloat32Arrays(chunks: Float32Array[]): Float32Array {
  * @param samples     The raw Float32 samples (mono)
  * @param sampleRate  Sample rate in Hz (e.g., 48000)
  */
-function encodeWAV(samples: Float32Array, sampleRate: number): Blob {
+export function encodeWAV(samples: Float32Array, sampleRate: number): Blob {
   // For mono, 16-bit PCM
   const numChannels = 1;
   const bitsPerSample = 16;
@@ -126,3 +66,301 @@ function writeString(view: DataView, offset: number, str: string) {
     view.setUint8(offset + i, str.charCodeAt(i));
   }
 }
+
+// ---- DSP stage applied to each segment before encoding ----
+
+export type NormalizationMode = 'none' | 'peak' | 'rms';
+
+export interface DSPOptions {
+  // Resample to this rate before upload; null keeps the capture rate
+  targetSampleRate: number | null;
+  trimSilence: boolean;
+  // Windows quieter than this (dBFS RMS) count as silence
+  silenceThresholdDb: number;
+  // Audio kept either side of the first and last non-silent window
+  silencePaddingMs: number;
+  normalization: NormalizationMode;
+  // Peak level for 'peak', RMS level for 'rms' (dBFS)
+  targetLevelDb: number;
+  // Upper bound on the gain applied, so near-silence isn't blown up into noise
+  maxGainDb: number;
+}
+
+export const DEFAULT_DSP_OPTIONS: DSPOptions = {
+  targetSampleRate: 16000, // What the transcription backend expects
+  trimSilence: true,
+  silenceThresholdDb: -50,
+  silencePaddingMs: 150,
+  normalization: 'rms',
+  targetLevelDb: -20,
+  maxGainDb: 20,
+};
+
+const DSP_OPTIONS_KEY = 'agent-test-client:dsp';
+
+export function loadDSPOptions(): DSPOptions {
+  return { ...DEFAULT_DSP_OPTIONS, ...readStoredJSON<Partial<DSPOptions>>(DSP_OPTIONS_KEY) };
+}
+
+export function saveDSPOptions(options: DSPOptions) {
+  writeStoredJSON(DSP_OPTIONS_KEY, options);
+}
+
+// Low-pass zero crossings kept on each side of the resampling kernel
+const SINC_ZERO_CROSSINGS = 12;
+// Cutoff as a fraction of the output Nyquist, leaving room for the transition band
+const SINC_ROLLOFF = 0.95;
+const SILENCE_WINDOW_MS = 10;
+// Never normalize a peak above this, whatever the mode
+const MAX_PEAK = 0.99;
+
+export function dbToGain(db: number) {
+  return 10 ** (db / 20);
+}
+
+function sinc(x: number) {
+  return x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x);
+}
+
+function blackman(x: number) {
+  // x in [-1, 1]
+  return 0.42 + 0.5 * Math.cos(Math.PI * x) + 0.08 * Math.cos(2 * Math.PI * x);
+}
+
+function gcd(a: number, b: number): number {
+  return b === 0 ? a : gcd(b, a % b);
+}
+
+/**
+ * The resampling kernel for one rate pair, split into phases. Output n sits
+ * at input position n * inputStep / phases, and its fractional part is one
+ * of `phases` values, so each phase's weights are computed once and reused
+ * for every output at that phase.
+ */
+interface PolyphaseKernel {
+  // Input samples per output sample is inputStep / phases, in lowest terms
+  inputStep: number;
+  phases: number;
+  halfWidth: number;
+  cutoff: number;
+  // 2 * halfWidth + 1 weights per phase, for taps at index - halfWidth ...
+  // index + halfWidth; filled in the first time a phase is used
+  weights: (Float64Array | undefined)[];
+}
+
+const kernels = new Map<string, PolyphaseKernel>();
+
+function polyphaseKernel(fromRate: number, toRate: number): PolyphaseKernel {
+  const key = `${fromRate}:${toRate}`;
+  let kernel = kernels.get(key);
+  if (!kernel) {
+    const from = Math.round(fromRate);
+    const to = Math.round(toRate);
+    const divisor = gcd(from, to);
+    // Cutoff in cycles per input sample
+    const cutoff = 0.5 * Math.min(1, toRate / fromRate) * SINC_ROLLOFF;
+    kernel = {
+      inputStep: from / divisor,
+      phases: to / divisor,
+      halfWidth: Math.ceil(SINC_ZERO_CROSSINGS / (2 * cutoff)),
+      cutoff,
+      weights: [],
+    };
+    kernels.set(key, kernel);
+  }
+  return kernel;
+}
+
+function phaseWeights(kernel: PolyphaseKernel, phase: number): Float64Array {
+  let weights = kernel.weights[phase];
+  if (!weights) {
+    const { cutoff, halfWidth } = kernel;
+    const fraction = phase / kernel.phases;
+    weights = new Float64Array(2 * halfWidth + 1);
+    for (let tap = -halfWidth; tap <= halfWidth; tap++) {
+      const distance = fraction - tap;
+      // Taps past the window's edge carry no weight
+      weights[tap + halfWidth] =
+        Math.abs(distance) > halfWidth
+          ? 0
+          : 2 * cutoff * sinc(2 * cutoff * distance) * blackman(distance / halfWidth);
+    }
+    kernel.weights[phase] = weights;
+  }
+  return weights;
+}
+
+// The input index at or just before output `n`'s position
+function centerIndex(n: number, kernel: PolyphaseKernel) {
+  return Math.floor((n * kernel.inputStep) / kernel.phases);
+}
+
+// Interpolates output `n` from `samples`, whose first element is input index `base`
+function interpolate(samples: Float32Array, base: number, n: number, kernel: PolyphaseKernel) {
+  const index = centerIndex(n, kernel);
+  const weights = phaseWeights(kernel, n * kernel.inputStep - index * kernel.phases);
+  const { halfWidth } = kernel;
+  const first = Math.max(base, index - halfWidth);
+  const last = Math.min(base + samples.length - 1, index + halfWidth);
+  let sum = 0;
+  let total = 0;
+  for (let k = first; k <= last; k++) {
+    const weight = weights[k - index + halfWidth];
+    sum += samples[k - base] * weight;
+    total += weight;
+  }
+  // Normalizing by the kernel sum keeps DC gain at 1, including at the edges
+  return total === 0 ? 0 : sum / total;
+}
+
+/**
+ * Resamples with a Blackman-windowed sinc kernel. When downsampling, the
+ * kernel doubles as the anti-aliasing low-pass filter at the new Nyquist.
+ */
+export function resample(samples: Float32Array, fromRate: number, toRate: number): Float32Array {
+  if (fromRate === toRate || samples.length === 0) return samples;
+
+  const kernel = polyphaseKernel(fromRate, toRate);
+  // Every output whose position falls inside the input
+  const out = new Float32Array(Math.ceil((samples.length * kernel.phases) / kernel.inputStep));
+  for (let n = 0; n < out.length; n++) {
+    out[n] = interpolate(samples, 0, n, kernel);
+  }
+  return out;
+}
+
+/**
+ * Incremental resample() for audio that arrives in pieces. Output sample n is
+ * always taken at input position n * fromRate / toRate, so consecutive pieces
+ * join without seams; each output waits until its whole kernel has arrived.
+ */
+export class StreamResampler {
+  private buffer = new Float32Array(0);
+  // Input index of buffer[0]
+  private base = 0;
+  private nextOutput = 0;
+  private kernel: PolyphaseKernel;
+
+  constructor(
+    private fromRate: number,
+    private toRate: number
+  ) {
+    this.kernel = polyphaseKernel(fromRate, toRate);
+  }
+
+  // Emits outputs while their position, scaled by the phase count, is
+  // before `limit`
+  private produce(limit: number): Float32Array {
+    const { inputStep, halfWidth } = this.kernel;
+    const out: number[] = [];
+    while (this.nextOutput * inputStep < limit) {
+      out.push(interpolate(this.buffer, this.base, this.nextOutput, this.kernel));
+      this.nextOutput++;
+    }
+
+    // Drop input no later output can reach
+    const keepFrom = Math.max(this.base, centerIndex(this.nextOutput, this.kernel) - halfWidth);
+    this.buffer = this.buffer.slice(keepFrom - this.base);
+    this.base = keepFrom;
+    return Float32Array.from(out);
+  }
+
+  push(samples: Float32Array): Float32Array {
+    if (this.fromRate === this.toRate) return samples;
+
+    const joined = new Float32Array(this.buffer.length + samples.length);
+    joined.set(this.buffer);
+    joined.set(samples, this.buffer.length);
+    this.buffer = joined;
+    const end = this.base + this.buffer.length;
+    return this.produce((end - this.kernel.halfWidth) * this.kernel.phases);
+  }
+
+  // Emits the outputs still waiting for input that will never come
+  flush(): Float32Array {
+    if (this.fromRate === this.toRate) return new Float32Array(0);
+    const end = this.base + this.buffer.length;
+    return this.produce(end * this.kernel.phases);
+  }
+}
+
+function rms(samples: Float32Array, start = 0, end = samples.length) {
+  let sum = 0;
+  for (let i = start; i < end; i++) sum += samples[i] * samples[i];
+  return end > start ? Math.sqrt(sum / (end - start)) : 0;
+}
+
+function peak(samples: Float32Array) {
+  let max = 0;
+  for (const s of samples) max = Math.max(max, Math.abs(s));
+  return max;
+}
+
+/**
+ * Cuts leading and trailing silence, keeping `paddingMs` around the audible
+ * part. A segment with no audible window is returned unchanged.
+ */
+export function trimSilence(
+  samples: Float32Array,
+  sampleRate: number,
+  thresholdDb: number,
+  paddingMs: number
+): Float32Array {
+  const window = Math.max(1, Math.round((SILENCE_WINDOW_MS / 1000) * sampleRate));
+  const threshold = dbToGain(thresholdDb);
+
+  let first = -1;
+  let last = -1;
+  for (let start = 0; start < samples.length; start += window) {
+    const end = Math.min(samples.length, start + window);
+    if (rms(samples, start, end) >= threshold) {
+      if (first < 0) first = start;
+      last = end;
+    }
+  }
+  if (first < 0) return samples;
+
+  const padding = Math.round((paddingMs / 1000) * sampleRate);
+  return samples.slice(Math.max(0, first - padding), Math.min(samples.length, last + padding));
+}
+
+/**
+ * Scales the segment so its peak or RMS level reaches `targetDb`, bounded by
+ * `maxGainDb` and never pushing the peak into clipping.
+ */
+export function normalizeLoudness(
+  samples: Float32Array,
+  mode: NormalizationMode,
+  targetDb: number,
+  maxGainDb: number
+): Float32Array {
+  if (mode === 'none' || samples.length === 0) return samples;
+
+  const samplePeak = peak(samples);
+  const level = mode === 'peak' ? samplePeak : rms(samples);
+  if (level === 0) return samples;
+
+  const gain = Math.min(dbToGain(targetDb) / level, dbToGain(maxGainDb), MAX_PEAK / samplePeak);
+  return samples.map((s) => s * gain);
+}
+
+/**
+ * Runs a segment through the DSP stage: trim, resample, then normalize.
+ * `keepEdges` skips trimming for split parts whose overlap must stay exact.
+ */
+export function processSegment(
+  samples: Float32Array,
+  sampleRate: number,
+  options: DSPOptions,
+  keepEdges = false
+): { samples: Float32Array; sampleRate: number } {
+  let out = samples;
+  if (options.trimSilence && !keepEdges) {
+    out = trimSilence(out, sampleRate, options.silenceThresholdDb, options.silencePaddingMs);
+  }
+
+  const targetRate = options.targetSampleRate ?? sampleRate;
+  out = resample(out, sampleRate, targetRate);
+  out = normalizeLoudness(out, options.normalization, options.targetLevelDb, options.maxGainDb);
+  return { samples: out, sampleRate: targetRate };
+}
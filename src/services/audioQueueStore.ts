@@ -0,0 +1,47 @@
+/**
+ * audioQueueStore.ts
+ *
+ * Durable copy of the outgoing audio queue. Chunks are written here before
+ * they are sent and only removed once the server acknowledges them, so speech
+ * captured while offline (or before a reload) can be replayed later.
+ */
+import { STORES, requestToPromise, withStore } from './db';
+import type { QueuedAudioChunk } from '../types';
+
+/**
+ * Persists a chunk until the server acknowledges it.
+ */
+export async function persistChunk(chunk: QueuedAudioChunk): Promise<void> {
+  await withStore(STORES.audioQueue, 'readwrite', (store) => requestToPromise(store.put(chunk)));
+}
+
+/**
+ * Removes a chunk once the server has acknowledged it.
+ */
+export async function acknowledgeChunk(sequenceId: number): Promise<void> {
+  await withStore(STORES.audioQueue, 'readwrite', (store) =>
+    requestToPromise(store.delete(sequenceId))
+  );
+}
+
+/**
+ * Drops a chunk the user chose to discard without it being sent.
+ */
+export async function discardChunk(sequenceId: number): Promise<void> {
+  await withStore(STORES.audioQueue, 'readwrite', (store) =>
+    requestToPromise(store.delete(sequenceId))
+  );
+}
+
+/**
+ * Returns every unacknowledged chunk (including dead-lettered ones) in sequenceId order.
+ */
+export async function listPendingChunks(): Promise<QueuedAudioChunk[]> {
+  return withStore(STORES.audioQueue, 'readonly', (store) =>
+    requestToPromise(store.getAll() as IDBRequest<QueuedAudioChunk[]>)
+  );
+}
+
+export async function countPendingChunks(): Promise<number> {
+  return withStore(STORES.audioQueue, 'readonly', (store) => requestToPromise(store.count()));
+}
@@ -0,0 +1,114 @@
+/**
+ * audioStreaming.ts
+ *
+ * Streaming mode: instead of one encoded chunk at voice stop, a segment is
+ * sent as small 16-bit PCM frames while the speaker is still talking, using
+ * the audioStreamStart / audioStreamFrame / audioStreamEnd events. Frames are
+ * resampled to the upload rate but not trimmed or normalized, since those
+ * need the whole segment.
+ */
+import type { AudioCapture } from './audioCapture';
+import { StreamResampler } from './audioMerging';
+import type { AudioStreamStartPayload } from './protocol';
+import { readStoredJSON, writeStoredJSON } from './settings';
+import type { EngineTransport } from './voiceExpenseEngine';
+import type { SegmentContinuation, TranscriptionResponse } from '../types';
+
+const STREAMING_KEY = 'agent-test-client:streaming';
+
+// How much audio each frame carries
+export const STREAM_FRAME_MS = 250;
+
+export function loadStreamingEnabled(): boolean {
+  return readStoredJSON<boolean>(STREAMING_KEY) ?? false;
+}
+
+export function saveStreamingEnabled(enabled: boolean) {
+  writeStoredJSON(STREAMING_KEY, enabled);
+}
+
+function toPCM16(samples: Float32Array): ArrayBuffer {
+  const view = new DataView(new ArrayBuffer(samples.length * 2));
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(i * 2, s < 0 ? s * 0x8000 : s * 0x7fff, true);
+  }
+  return view.buffer;
+}
+
+/**
+ * One segment being streamed from the capture buffer. If the connection
+ * drops mid-stream the stream is marked broken, and end() rejects so the
+ * caller can fall back to sending the segment as a regular chunk.
+ */
+export class UploadStream {
+  private sentPosition: number;
+  private frameIndex = 0;
+  private resampler: StreamResampler;
+  private broken = false;
+  lastFrameAt = Date.now();
+
+  constructor(
+    readonly sequenceId: number,
+    private capture: AudioCapture,
+    // Absolute capture position of the segment's first sample
+    readonly startPosition: number,
+    private sampleRate: number,
+    private transport: EngineTransport
+  ) {
+    this.sentPosition = startPosition;
+    this.resampler = new StreamResampler(capture.sampleRate, sampleRate);
+  }
+
+  start(payload: Omit<AudioStreamStartPayload, 'sequenceId' | 'encoding'>) {
+    console.log('[STREAM] Starting stream for sequenceId:', this.sequenceId);
+    this.transport.emit('audioStreamStart', {
+      ...payload,
+      sequenceId: this.sequenceId,
+      encoding: { codec: 'pcm16', mimeType: 'audio/pcm', sampleRate: this.sampleRate, channels: 1 },
+    });
+  }
+
+  private emitFrame(samples: Float32Array) {
+    if (samples.length === 0 || this.broken) return;
+    // socket.io would buffer these until reconnect; the fallback chunk replaces them
+    if (!this.transport.isConnected()) {
+      console.warn('[STREAM] Connection lost, stream will fall back to a chunk:', this.sequenceId);
+      this.broken = true;
+      return;
+    }
+    this.transport.emit('audioStreamFrame', {
+      sequenceId: this.sequenceId,
+      frameIndex: this.frameIndex++,
+      audio: toPCM16(samples),
+    });
+  }
+
+  // Sends everything captured since the last frame, up to `position`
+  sendPending(position = this.capture.position) {
+    const samples = this.capture.slice(this.sentPosition, position);
+    this.sentPosition = Math.max(this.sentPosition, position);
+    this.lastFrameAt = Date.now();
+    this.emitFrame(this.resampler.push(samples));
+  }
+
+  async end(
+    position: number,
+    segment: SegmentContinuation | undefined,
+    timeoutMs: number
+  ): Promise<TranscriptionResponse> {
+    this.sendPending(position);
+    this.emitFrame(this.resampler.flush());
+    if (this.broken) throw new Error('Stream interrupted');
+
+    const response = await this.transport.request(
+      'audioStreamEnd',
+      { sequenceId: this.sequenceId, frameCount: this.frameIndex, segment },
+      timeoutMs
+    );
+    if (!response.success) {
+      throw new Error(response.error || 'Unknown error occurred');
+    }
+    return response;
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * db.ts
+ *
+ * Thin promise wrapper around the client's IndexedDB database.
+ * Every persistent store used by the app is declared in `upgradeDatabase`,
+ * so bumping DB_VERSION is the only step needed to add a new one.
+ */
+
+const DB_NAME = 'agent-test-client';
+const DB_VERSION = 5;
+
+export const STORES = {
+  expenses: 'expenses',
+  rejections: 'rejections',
+  audioQueue: 'audioQueue',
+  segmentAudio: 'segmentAudio',
+  sessions: 'sessions',
+} as const;
+
+export type StoreName = (typeof STORES)[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Creates any object stores that are missing from the current database.
+ */
+function upgradeDatabase(db: IDBDatabase, tx: IDBTransaction) {
+  if (!db.objectStoreNames.contains(STORES.expenses)) {
+    const expenses = db.createObjectStore(STORES.expenses, { keyPath: 'id' });
+    expenses.createIndex('date', 'date');
+  }
+
+  if (!db.objectStoreNames.contains(STORES.rejections)) {
+    const rejections = db.createObjectStore(STORES.rejections, { keyPath: 'id' });
+    rejections.createIndex('rejectedAt', 'rejectedAt');
+  }
+
+  if (!db.objectStoreNames.contains(STORES.audioQueue)) {
+    // Keyed by sequenceId so getAll() already returns chunks in send order
+    db.createObjectStore(STORES.audioQueue, { keyPath: 'sequenceId' });
+  }
+
+  if (!db.objectStoreNames.contains(STORES.segmentAudio)) {
+    db.createObjectStore(STORES.segmentAudio, { keyPath: 'id' });
+  }
+  // Eviction walks segments by age and reads their sizes from the index
+  // keys, so it never loads the audio itself
+  const segmentAudio = tx.objectStore(STORES.segmentAudio);
+  if (segmentAudio.indexNames.contains('storedAt')) segmentAudio.deleteIndex('storedAt');
+  if (!segmentAudio.indexNames.contains('storedAtSize')) {
+    segmentAudio.createIndex('storedAtSize', ['storedAt', 'byteLength']);
+  }
+
+  if (!db.objectStoreNames.contains(STORES.sessions)) {
+    const sessions = db.createObjectStore(STORES.sessions, { keyPath: 'id' });
+    sessions.createIndex('startedAt', 'startedAt');
+  }
+}
+
+/**
+ * Opens (and lazily upgrades) the database. The connection is shared.
+ */
+export function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => upgradeDatabase(request.result, request.transaction!);
+    request.onsuccess = () => {
+      const db = request.result;
+      // Another tab upgraded the schema: drop our connection so it can proceed
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error ?? new Error('Failed to open IndexedDB'));
+    };
+  });
+
+  return dbPromise;
+}
+
+/**
+ * Wraps an IDBRequest in a Promise.
+ */
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('IndexedDB request failed'));
+  });
+}
+
+/**
+ * Runs `fn` against a single object store and resolves once the
+ * transaction has committed.
+ */
+export async function withStore<T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => Promise<T> | T
+): Promise<T> {
+  const db = await openDatabase();
+  const tx = db.transaction(storeName, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onabort = () => reject(tx.error ?? new Error('IndexedDB transaction aborted'));
+    tx.onerror = () => reject(tx.error ?? new Error('IndexedDB transaction failed'));
+  });
+
+  const result = await fn(tx.objectStore(storeName));
+  await done;
+  return result;
+}
@@ -0,0 +1,91 @@
+/**
+ * encoderStats.ts
+ *
+ * Records the size and encode time of every segment so the encoders can be
+ * compared on real speech. Sizes are measured against 16-bit PCM, i.e. what
+ * the segment would cost as WAV without its header.
+ */
+import type { AudioCodec } from '../types';
+
+// Segments kept for the summary and export
+const MAX_SAMPLES = 500;
+
+export interface EncodingSample {
+  codec: AudioCodec;
+  sequenceId: number;
+  audioMs: number;
+  pcmBytes: number;
+  encodedBytes: number;
+  encodeMs: number;
+}
+
+export interface EncoderSummary {
+  codec: AudioCodec;
+  segments: number;
+  averageBytes: number;
+  // Encoded size as a fraction of 16-bit PCM
+  compressionRatio: number;
+  averageEncodeMs: number;
+  // Encode time per second of audio; below 1 is faster than real time
+  realtimeFactor: number;
+}
+
+type StatsListener = () => void;
+
+export class EncoderStatsCollector {
+  private samples: EncodingSample[] = [];
+  private listeners = new Set<StatsListener>();
+
+  subscribe(listener: StatsListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify() {
+    this.listeners.forEach((listener) => listener());
+  }
+
+  record(sample: EncodingSample) {
+    this.samples = [...this.samples, sample].slice(-MAX_SAMPLES);
+    this.notify();
+  }
+
+  getSamples(): EncodingSample[] {
+    return this.samples;
+  }
+
+  getSummaries(): EncoderSummary[] {
+    const byCodec = new Map<AudioCodec, EncodingSample[]>();
+    for (const sample of this.samples) {
+      byCodec.set(sample.codec, [...(byCodec.get(sample.codec) ?? []), sample]);
+    }
+
+    return [...byCodec.entries()].map(([codec, samples]) => {
+      const sum = (value: (s: EncodingSample) => number) =>
+        samples.reduce((total, s) => total + value(s), 0);
+      const encodedBytes = sum((s) => s.encodedBytes);
+      const pcmBytes = sum((s) => s.pcmBytes);
+      const encodeMs = sum((s) => s.encodeMs);
+      return {
+        codec,
+        segments: samples.length,
+        averageBytes: encodedBytes / samples.length,
+        compressionRatio: encodedBytes / Math.max(1, pcmBytes),
+        averageEncodeMs: encodeMs / samples.length,
+        realtimeFactor:
+          encodeMs /
+          Math.max(
+            1,
+            sum((s) => s.audioMs)
+          ),
+      };
+    });
+  }
+
+  reset() {
+    this.samples = [];
+    this.notify();
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * engineAdapters.ts
+ *
+ * The browser implementations of what VoiceExpenseEngine is given: the
+ * shared socket.io connection and the IndexedDB stores.
+ */
+import {
+  acknowledgeChunk,
+  countPendingChunks,
+  discardChunk,
+  listPendingChunks,
+  persistChunk,
+} from './audioQueueStore';
+import { addExpense, recordRejection } from './ledger';
+import { storeSegmentAudio } from './segmentAudioStore';
+import {
+  emitToServer,
+  getConnectionStatus,
+  isConnected,
+  reportProtocolError,
+  requestFromServer,
+  subscribe,
+  subscribeToConnectionStatus,
+} from './socket';
+import type { EngineStorage, EngineTransport } from './voiceExpenseEngine';
+
+export const socketTransport: EngineTransport = {
+  isConnected,
+  getConnectionStatus,
+  subscribeToConnectionStatus,
+  subscribe,
+  emit: emitToServer,
+  request: requestFromServer,
+  reportProtocolError,
+};
+
+export const browserStorage: EngineStorage = {
+  persistChunk,
+  acknowledgeChunk,
+  discardChunk,
+  listPendingChunks,
+  countPendingChunks,
+  storeSegmentAudio: (segment) => storeSegmentAudio(segment),
+  addExpense,
+  recordRejection,
+};
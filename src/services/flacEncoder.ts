@@ -0,0 +1,231 @@
+/**
+ * flacEncoder.ts
+ *
+ * A small lossless FLAC encoder for mono 16-bit audio. Each fixed-size block
+ * is coded with the best of FLAC's fixed polynomial predictors (orders 0-4)
+ * and a single Rice-coded residual partition. That is far simpler than
+ * libFLAC's LPC search but typically halves the size of speech against WAV.
+ */
+
+const BLOCK_SIZE = 4096;
+const BITS_PER_SAMPLE = 16;
+const MAX_FIXED_ORDER = 4;
+// 4-bit Rice parameters; 15 is reserved as the escape code
+const MAX_RICE_PARAMETER = 14;
+
+class BitWriter {
+  private bytes = new Uint8Array(1 << 16);
+  private acc = 0;
+  private bits = 0;
+  length = 0;
+
+  private pushByte(byte: number) {
+    if (this.length === this.bytes.length) {
+      const grown = new Uint8Array(this.bytes.length * 2);
+      grown.set(this.bytes);
+      this.bytes = grown;
+    }
+    this.bytes[this.length++] = byte;
+  }
+
+  // Writes the low `count` bits of `value`, most significant first (count <= 32)
+  writeBits(value: number, count: number) {
+    for (let i = count - 1; i >= 0; i--) {
+      this.acc = (this.acc << 1) | ((value >>> i) & 1);
+      if (++this.bits === 8) {
+        this.pushByte(this.acc);
+        this.acc = 0;
+        this.bits = 0;
+      }
+    }
+  }
+
+  writeUnary(zeros: number) {
+    for (let i = 0; i < zeros; i++) this.writeBits(0, 1);
+    this.writeBits(1, 1);
+  }
+
+  alignToByte() {
+    if (this.bits > 0) this.writeBits(0, 8 - this.bits);
+  }
+
+  view(start = 0, end = this.length) {
+    return this.bytes.subarray(start, end);
+  }
+}
+
+function crc8(bytes: Uint8Array) {
+  let crc = 0;
+  for (const byte of bytes) {
+    crc ^= byte;
+    for (let i = 0; i < 8; i++) crc = crc & 0x80 ? ((crc << 1) ^ 0x07) & 0xff : (crc << 1) & 0xff;
+  }
+  return crc;
+}
+
+function crc16(bytes: Uint8Array) {
+  let crc = 0;
+  for (const byte of bytes) {
+    crc ^= byte << 8;
+    for (let i = 0; i < 8; i++) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x8005) & 0xffff : (crc << 1) & 0xffff;
+    }
+  }
+  return crc;
+}
+
+// Frame numbers use the same variable-length coding as UTF-8
+function writeUTF8Number(writer: BitWriter, value: number) {
+  if (value < 0x80) {
+    writer.writeBits(value, 8);
+    return;
+  }
+  // Each continuation byte carries 6 bits and takes one from the lead byte
+  let continuation = 1;
+  while (value >= 2 ** (5 * continuation + 6)) continuation++;
+  writer.writeBits(((0xff << (7 - continuation)) & 0xff) | (value >>> (6 * continuation)), 8);
+  for (let i = continuation - 1; i >= 0; i--) {
+    writer.writeBits(0x80 | ((value >>> (6 * i)) & 0x3f), 8);
+  }
+}
+
+function toInt16(samples: Float32Array): Int32Array {
+  const out = new Int32Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    out[i] = Math.round(s < 0 ? s * 0x8000 : s * 0x7fff);
+  }
+  return out;
+}
+
+function fixedResiduals(block: Int32Array, order: number): Int32Array {
+  const residuals = new Int32Array(block.length - order);
+  const x = block;
+  for (let i = order; i < block.length; i++) {
+    let r: number;
+    switch (order) {
+      case 0:
+        r = x[i];
+        break;
+      case 1:
+        r = x[i] - x[i - 1];
+        break;
+      case 2:
+        r = x[i] - 2 * x[i - 1] + x[i - 2];
+        break;
+      case 3:
+        r = x[i] - 3 * x[i - 1] + 3 * x[i - 2] - x[i - 3];
+        break;
+      default:
+        r = x[i] - 4 * x[i - 1] + 6 * x[i - 2] - 4 * x[i - 3] + x[i - 4];
+    }
+    residuals[i - order] = r;
+  }
+  return residuals;
+}
+
+// Maps signed residuals onto unsigned values: 0, -1, 1, -2, 2 ... -> 0, 1, 2, 3, 4 ...
+function zigzag(value: number) {
+  return value >= 0 ? value * 2 : -value * 2 - 1;
+}
+
+function riceCost(folded: Uint32Array, parameter: number) {
+  let bits = 0;
+  for (const u of folded) bits += (u >>> parameter) + 1 + parameter;
+  return bits;
+}
+
+function encodeSubframe(writer: BitWriter, block: Int32Array) {
+  let best: { order: number; folded: Uint32Array; parameter: number; cost: number } | null = null;
+
+  for (let order = 0; order <= Math.min(MAX_FIXED_ORDER, block.length - 1); order++) {
+    const folded = Uint32Array.from(fixedResiduals(block, order), zigzag);
+    // The best parameter sits close to log2 of the mean folded residual
+    const mean = folded.reduce((sum, u) => sum + u, 0) / Math.max(1, folded.length);
+    const estimate = mean > 1 ? Math.floor(Math.log2(mean)) : 0;
+    const from = Math.max(0, estimate - 1);
+    const to = Math.min(MAX_RICE_PARAMETER, estimate + 1);
+    for (let parameter = from; parameter <= to; parameter++) {
+      const cost = riceCost(folded, parameter) + order * BITS_PER_SAMPLE;
+      if (!best || cost < best.cost) best = { order, folded, parameter, cost };
+    }
+  }
+  const { order, folded, parameter } = best!;
+
+  // Subframe header: zero pad, SUBFRAME_FIXED (0b001xxx) with the order, no wasted bits
+  writer.writeBits(0, 1);
+  writer.writeBits(0b001000 | order, 6);
+  writer.writeBits(0, 1);
+
+  // Warm-up samples, stored verbatim
+  for (let i = 0; i < order; i++) writer.writeBits(block[i] & 0xffff, BITS_PER_SAMPLE);
+
+  // Residual: Rice coding with 4-bit parameters, partition order 0
+  writer.writeBits(0, 2);
+  writer.writeBits(0, 4);
+  writer.writeBits(parameter, 4);
+  for (const u of folded) {
+    writer.writeUnary(u >>> parameter);
+    if (parameter > 0) writer.writeBits(u & ((1 << parameter) - 1), parameter);
+  }
+}
+
+function encodeFrame(writer: BitWriter, block: Int32Array, frameNumber: number) {
+  const start = writer.length;
+
+  // Sync code with fixed-blocksize strategy
+  writer.writeBits(0b11111111111110, 14);
+  writer.writeBits(0, 1);
+  writer.writeBits(0, 1);
+  // Block size from a 16-bit field after the header; sample rate from STREAMINFO
+  writer.writeBits(0b0111, 4);
+  writer.writeBits(0b0000, 4);
+  // Mono, 16 bits per sample
+  writer.writeBits(0b0000, 4);
+  writer.writeBits(0b100, 3);
+  writer.writeBits(0, 1);
+  writeUTF8Number(writer, frameNumber);
+  writer.writeBits(block.length - 1, 16);
+  writer.writeBits(crc8(writer.view(start)), 8);
+
+  encodeSubframe(writer, block);
+
+  writer.alignToByte();
+  writer.writeBits(crc16(writer.view(start)), 16);
+}
+
+function writeStreamInfo(writer: BitWriter, sampleRate: number, totalSamples: number) {
+  writer.writeBits(0x664c6143, 32); // "fLaC"
+
+  // Metadata block header: last block, STREAMINFO, 34 bytes
+  writer.writeBits(1, 1);
+  writer.writeBits(0, 7);
+  writer.writeBits(34, 24);
+
+  writer.writeBits(BLOCK_SIZE, 16);
+  writer.writeBits(BLOCK_SIZE, 16);
+  // Frame sizes and MD5 are optional; zero means unknown
+  writer.writeBits(0, 24);
+  writer.writeBits(0, 24);
+  writer.writeBits(sampleRate, 20);
+  writer.writeBits(0, 3); // channels - 1
+  writer.writeBits(BITS_PER_SAMPLE - 1, 5);
+  writer.writeBits(Math.floor(totalSamples / 2 ** 32), 4);
+  writer.writeBits(totalSamples >>> 0, 32);
+  for (let i = 0; i < 4; i++) writer.writeBits(0, 32);
+}
+
+/**
+ * Encodes mono Float32 samples as a FLAC file.
+ */
+export function encodeFLAC(samples: Float32Array, sampleRate: number): ArrayBuffer {
+  const pcm = toInt16(samples);
+  const writer = new BitWriter();
+
+  writeStreamInfo(writer, sampleRate, pcm.length);
+  for (let offset = 0, frame = 0; offset < pcm.length; offset += BLOCK_SIZE, frame++) {
+    encodeFrame(writer, pcm.subarray(offset, offset + BLOCK_SIZE), frame);
+  }
+
+  return writer.view().slice().buffer;
+}
@@ -0,0 +1,179 @@
+/**
+ * ledger.ts
+ *
+ * Local expense ledger backed by IndexedDB. Approved proposals become
+ * ExpenseRecords; rejected proposals are kept with the reason so they can
+ * be reviewed later. Components subscribe to be told when either changes.
+ */
+import { STORES, requestToPromise, withStore } from './db';
+import type { ExpenseRecord, Proposal, RejectedProposal } from '../types';
+
+export const DEFAULT_CATEGORIES = [
+  'Food & Drink',
+  'Groceries',
+  'Transport',
+  'Housing',
+  'Utilities',
+  'Entertainment',
+  'Shopping',
+  'Health',
+  'Travel',
+  'Other',
+];
+
+type LedgerListener = () => void;
+
+const listeners = new Set<LedgerListener>();
+
+/**
+ * Registers a listener that fires after any ledger write.
+ * Returns an unsubscribe function.
+ */
+export function subscribeToLedger(listener: LedgerListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function notifyListeners() {
+  listeners.forEach((listener) => listener());
+}
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+function toISODate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Resolves a spoken temporal reference ("yesterday", "last friday",
+ * "3 days ago", "2024-05-01") to an ISO date. Falls back to `now`.
+ */
+export function resolveTemporalReference(reference: string | undefined, now = new Date()): string {
+  if (!reference) return toISODate(now);
+
+  const text = reference.trim().toLowerCase();
+  const date = new Date(now);
+
+  if (text === 'today' || text === 'tonight' || text === 'this morning') {
+    return toISODate(date);
+  }
+
+  if (text === 'yesterday' || text === 'last night') {
+    date.setDate(date.getDate() - 1);
+    return toISODate(date);
+  }
+
+  const daysAgo = text.match(/^(\d+)\s+days?\s+ago$/);
+  if (daysAgo) {
+    date.setDate(date.getDate() - Number(daysAgo[1]));
+    return toISODate(date);
+  }
+
+  const weekday = text.match(/^(?:last|on)\s+(\w+)$/);
+  if (weekday && WEEKDAYS.includes(weekday[1])) {
+    const target = WEEKDAYS.indexOf(weekday[1]);
+    const diff = (date.getDay() - target + 7) % 7 || 7;
+    date.setDate(date.getDate() - diff);
+    return toISODate(date);
+  }
+
+  const parsed = Date.parse(reference);
+  if (!Number.isNaN(parsed)) {
+    return toISODate(new Date(parsed));
+  }
+
+  return toISODate(now);
+}
+
+/**
+ * Builds a full expense record from an approved proposal.
+ */
+export function proposalToExpense(proposal: Proposal): ExpenseRecord {
+  const now = Date.now();
+  const temporalReference = proposal.semanticContext?.temporalReference;
+
+  return {
+    id: crypto.randomUUID(),
+    description: proposal.description,
+    amount: proposal.amount,
+    category: proposal.suggestedCategory,
+    date: resolveTemporalReference(temporalReference),
+    temporalReference,
+    sourceTranscription: proposal.sourceTranscription,
+    sequenceId: proposal.sequenceId,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+export async function listExpenses(): Promise<ExpenseRecord[]> {
+  const expenses = await withStore(STORES.expenses, 'readonly', (store) =>
+    requestToPromise(store.getAll() as IDBRequest<ExpenseRecord[]>)
+  );
+  // Newest expense date first, then most recently created
+  return expenses.sort((a, b) => b.date.localeCompare(a.date) || b.createdAt - a.createdAt);
+}
+
+export async function addExpense(expense: ExpenseRecord): Promise<ExpenseRecord> {
+  await withStore(STORES.expenses, 'readwrite', (store) => requestToPromise(store.add(expense)));
+  notifyListeners();
+  return expense;
+}
+
+/**
+ * Applies a partial edit to an existing expense (e.g. re-categorization).
+ */
+export async function updateExpense(
+  id: string,
+  changes: Partial<Omit<ExpenseRecord, 'id' | 'createdAt'>>
+): Promise<ExpenseRecord> {
+  const updated = await withStore(STORES.expenses, 'readwrite', async (store) => {
+    const existing = await requestToPromise(store.get(id) as IDBRequest<ExpenseRecord | undefined>);
+    if (!existing) {
+      throw new Error(`Expense ${id} not found`);
+    }
+    const next: ExpenseRecord = { ...existing, ...changes, id, updatedAt: Date.now() };
+    await requestToPromise(store.put(next));
+    return next;
+  });
+  notifyListeners();
+  return updated;
+}
+
+export async function deleteExpense(id: string): Promise<void> {
+  await withStore(STORES.expenses, 'readwrite', (store) => requestToPromise(store.delete(id)));
+  notifyListeners();
+}
+
+export async function listRejections(): Promise<RejectedProposal[]> {
+  const rejections = await withStore(STORES.rejections, 'readonly', (store) =>
+    requestToPromise(store.getAll() as IDBRequest<RejectedProposal[]>)
+  );
+  return rejections.sort((a, b) => b.rejectedAt - a.rejectedAt);
+}
+
+export async function recordRejection(
+  proposal: Proposal,
+  reason: string
+): Promise<RejectedProposal> {
+  const rejection: RejectedProposal = {
+    id: crypto.randomUUID(),
+    proposal,
+    reason,
+    rejectedAt: Date.now(),
+  };
+  await withStore(STORES.rejections, 'readwrite', (store) =>
+    requestToPromise(store.add(rejection))
+  );
+  notifyListeners();
+  return rejection;
+}
+
+export async function deleteRejection(id: string): Promise<void> {
+  await withStore(STORES.rejections, 'readwrite', (store) => requestToPromise(store.delete(id)));
+  notifyListeners();
+}
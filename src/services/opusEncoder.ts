@@ -0,0 +1,103 @@
+/**
+ * opusEncoder.ts
+ *
+ * Opus in a WebM container, encoded with the browser's WebCodecs
+ * AudioEncoder and wrapped by the minimal muxer in webmMuxer.ts.
+ */
+import { muxWebM, type WebMPacket } from './webmMuxer';
+
+const OPUS_BITRATE = 32_000;
+// Opus decoders discard this many 48 kHz samples at the start of a stream
+const OPUS_PRE_SKIP = 312;
+const OPUS_SEEK_PRE_ROLL_NS = 80_000_000;
+
+function opusConfig(sampleRate: number): AudioEncoderConfig {
+  return { codec: 'opus', sampleRate, numberOfChannels: 1, bitrate: OPUS_BITRATE };
+}
+
+export async function isOpusSupported(sampleRate: number): Promise<boolean> {
+  if (typeof AudioEncoder === 'undefined') return false;
+  try {
+    const { supported } = await AudioEncoder.isConfigSupported(opusConfig(sampleRate));
+    return supported === true;
+  } catch {
+    return false;
+  }
+}
+
+// The "OpusHead" identification header WebM expects as CodecPrivate
+function opusHead(sampleRate: number): Uint8Array {
+  const head = new Uint8Array(19);
+  const view = new DataView(head.buffer);
+  head.set(new TextEncoder().encode('OpusHead'), 0);
+  head[8] = 1; // version
+  head[9] = 1; // channels
+  view.setUint16(10, OPUS_PRE_SKIP, true);
+  view.setUint32(12, sampleRate, true);
+  view.setInt16(16, 0, true); // output gain
+  head[18] = 0; // mono/stereo channel mapping
+  return head;
+}
+
+/**
+ * Encodes mono Float32 samples as Opus in WebM.
+ */
+export async function encodeOpusWebM(
+  samples: Float32Array,
+  sampleRate: number
+): Promise<ArrayBuffer> {
+  const packets: WebMPacket[] = [];
+  let codecPrivate: Uint8Array | undefined;
+  let failure: unknown = null;
+
+  const encoder = new AudioEncoder({
+    output: (chunk, metadata) => {
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      packets.push({ data, timestamp: chunk.timestamp });
+      const description = metadata?.decoderConfig?.description;
+      if (description && !codecPrivate) {
+        codecPrivate = ArrayBuffer.isView(description)
+          ? new Uint8Array(description.buffer, description.byteOffset, description.byteLength)
+          : new Uint8Array(description);
+        codecPrivate = codecPrivate.slice();
+      }
+    },
+    error: (err) => {
+      failure = err;
+    },
+  });
+
+  try {
+    encoder.configure(opusConfig(sampleRate));
+    const data = new AudioData({
+      format: 'f32-planar',
+      sampleRate,
+      numberOfChannels: 1,
+      numberOfFrames: samples.length,
+      timestamp: 0,
+      // AudioData wants a plain ArrayBuffer-backed view
+      data: new Float32Array(samples),
+    });
+    encoder.encode(data);
+    data.close();
+    await encoder.flush();
+  } finally {
+    if (encoder.state !== 'closed') encoder.close();
+  }
+  if (failure) throw failure;
+
+  const webm = muxWebM(
+    {
+      codecId: 'A_OPUS',
+      codecPrivate: codecPrivate ?? opusHead(sampleRate),
+      sampleRate,
+      channels: 1,
+      codecDelay: Math.round((OPUS_PRE_SKIP / 48_000) * 1e9),
+      seekPreRoll: OPUS_SEEK_PRE_ROLL_NS,
+    },
+    packets,
+    (samples.length / sampleRate) * 1000
+  );
+  return webm.slice().buffer;
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { parseLegacyProposals } from './protocol';
+
+const coffee = { description: 'Coffee', amount: 5, suggestedCategory: 'Food', confidence: 0.9 };
+
+describe('parseLegacyProposals', () => {
+  it('reads the first line and ignores the commentary after it', () => {
+    const raw = `${JSON.stringify([coffee])}\nI found one expense: {coffee}.`;
+    expect(parseLegacyProposals(raw)).toEqual({ proposals: [coffee] });
+  });
+
+  it('reads a leading JSON value that spans lines', () => {
+    const raw = `${JSON.stringify({ first: coffee }, null, 2)}\nThat is all [for now].`;
+    expect(parseLegacyProposals(raw)).toEqual({ proposals: [coffee] });
+  });
+
+  it('is not confused by brackets inside strings', () => {
+    const proposal = { ...coffee, description: 'Coffee ] and "cake" {' };
+    const raw = `${JSON.stringify([proposal])}\nnotes`;
+    expect(parseLegacyProposals(raw)).toEqual({ proposals: [proposal] });
+  });
+
+  it('treats "No proposals" and an empty payload as no proposals', () => {
+    expect(parseLegacyProposals('No proposals.')).toEqual({ proposals: [] });
+    expect(parseLegacyProposals('No proposals')).toEqual({ proposals: [] });
+    expect(parseLegacyProposals('')).toEqual({ proposals: [] });
+    expect(parseLegacyProposals(null)).toEqual({ proposals: [] });
+  });
+
+  it('reports a malformed leading part', () => {
+    expect(parseLegacyProposals('Here are your expenses:\n[]')).toHaveProperty('problem');
+    expect(parseLegacyProposals('[{"description": "Coffee"')).toHaveProperty('problem');
+    expect(parseLegacyProposals([{ ...coffee, amount: '5' }])).toEqual({
+      problem: 'proposals[0]: amount must be a number',
+    });
+  });
+});
@@ -0,0 +1,419 @@
+/**
+ * protocol.ts
+ *
+ * Typed event maps for the socket connection plus runtime validators for
+ * everything the server sends. Incoming payloads are checked before they
+ * reach any subscriber, so UI code can rely on the declared types.
+ */
+import type {
+  AudioEncodingInfo,
+  Proposal,
+  SegmentContinuation,
+  SemanticContext,
+  SemanticUnit,
+  TranscriptionResponse,
+} from '../types';
+
+// ---- Client -> server payloads ----
+
+export interface AudioDataPartialPayload {
+  audio: ArrayBuffer;
+  context: SemanticContext;
+  sequenceId: number;
+  timestamp: number;
+  // Set when this audio answers a clarification prompt
+  semanticUnit?: SemanticUnit;
+  // Set when a long utterance was split; the server stitches parts by continuesFrom
+  segment?: SegmentContinuation;
+  // Codec of `audio`; WAV when absent
+  encoding?: AudioEncodingInfo;
+}
+
+// Streaming mode: one stream per segment, keyed by the sequenceId it would
+// have had as a whole chunk
+
+export interface AudioStreamStartPayload {
+  sequenceId: number;
+  context: SemanticContext;
+  timestamp: number;
+  // Frames are little-endian 16-bit mono PCM ('pcm16') at encoding.sampleRate
+  encoding: AudioEncodingInfo;
+  semanticUnit?: SemanticUnit;
+}
+
+export interface AudioStreamFramePayload {
+  sequenceId: number;
+  // 0-based and contiguous within a stream
+  frameIndex: number;
+  audio: ArrayBuffer;
+}
+
+export interface AudioStreamEndPayload {
+  sequenceId: number;
+  frameCount: number;
+  segment?: SegmentContinuation;
+}
+
+export interface TranscriptCorrectionPayload {
+  sequenceId: number;
+  originalText: string;
+  correctedText: string;
+  // "misheard → intended" pairs, as kept in learningContext.commonCorrections
+  corrections: string[];
+  context: SemanticContext;
+}
+
+// A typed expense statement, numbered alongside the audio segments
+export interface TextInputPayload {
+  text: string;
+  sequenceId: number;
+  context: SemanticContext;
+  timestamp: number;
+  semanticUnit?: SemanticUnit;
+}
+
+export interface ClarificationReplyPayload {
+  unitId: string;
+  text: string;
+  semanticUnit: SemanticUnit;
+  context: SemanticContext;
+}
+
+// ---- Server -> client payloads ----
+
+// Proposals messages are versioned. Unversioned (v1) ones carry the
+// proposals as a JSON string or an object/array, without ids. From v2 every
+// proposal has a stable id that later updates and retractions refer to.
+export const PROPOSALS_VERSION = 2;
+
+// A proposal as the server sends it; the client adds where it came from
+export type ServerProposal = Pick<
+  Proposal,
+  'id' | 'description' | 'amount' | 'suggestedCategory' | 'confidence' | 'semanticContext'
+> & {
+  // The statement it was extracted from, if not the message's
+  sequenceId?: number;
+};
+
+export interface ProposalsMessage {
+  version: typeof PROPOSALS_VERSION;
+  // The statement the new proposals were extracted from
+  sequenceId?: number;
+  proposals?: ServerProposal[];
+  // Replace proposals still awaiting a decision, matched by id
+  updates?: ServerProposal[];
+  // Ids of proposals the server withdraws
+  retractions?: string[];
+}
+
+export interface LegacyProposalsPayload {
+  version?: undefined;
+  // A JSON string ("No proposals." when empty) or an object/array of proposals
+  proposals: unknown;
+}
+
+export type ProposalsPayload = ProposalsMessage | LegacyProposalsPayload;
+
+export interface OrderedTranscriptionPayload {
+  transcription: string;
+  sequenceId: number;
+  // False for interim results of a stream still in progress
+  isComplete: boolean;
+  confidence?: number;
+}
+
+export interface SemanticUnitDetectedPayload {
+  unit: string;
+  confidence: number;
+  requiresMoreContext: boolean;
+  // Newer servers also send the structured unit
+  unitId?: string;
+  semanticUnit?: SemanticUnit;
+}
+
+export interface ContextUpdatePayload {
+  contextComplete: boolean;
+  enhancedUnderstanding: boolean;
+  learningUpdates?: string[];
+}
+
+export interface LearningUpdatePayload {
+  userPatterns?: string[];
+  commonCorrections?: string[];
+  [key: string]: unknown;
+}
+
+export interface SemanticUpdatePayload {
+  [key: string]: unknown;
+}
+
+export interface ContextProgressPayload {
+  progress?: number;
+  stage?: string;
+  [key: string]: unknown;
+}
+
+export interface ServerErrorPayload {
+  message: string;
+}
+
+export interface ServerToClientEvents {
+  transcription: (data: TranscriptionResponse) => void;
+  orderedTranscription: (data: OrderedTranscriptionPayload) => void;
+  proposals: (data: ProposalsPayload) => void;
+  semanticUpdate: (data: SemanticUpdatePayload) => void;
+  contextProgress: (data: ContextProgressPayload) => void;
+  learningUpdate: (data: LearningUpdatePayload) => void;
+  contextUpdate: (data: ContextUpdatePayload) => void;
+  semanticUnitDetected: (data: SemanticUnitDetectedPayload) => void;
+  error: (data: ServerErrorPayload) => void;
+}
+
+export interface ClientToServerEvents {
+  audioDataPartial: (
+    data: AudioDataPartialPayload,
+    callback: (response: TranscriptionResponse) => void
+  ) => void;
+  audioComplete: () => void;
+  audioStreamStart: (data: AudioStreamStartPayload) => void;
+  audioStreamFrame: (data: AudioStreamFramePayload) => void;
+  // Acknowledged with the final transcription of the whole stream
+  audioStreamEnd: (
+    data: AudioStreamEndPayload,
+    callback: (response: TranscriptionResponse) => void
+  ) => void;
+  clarificationReply: (data: ClarificationReplyPayload) => void;
+  transcriptCorrection: (data: TranscriptCorrectionPayload) => void;
+  textInput: (data: TextInputPayload) => void;
+}
+
+export type ServerEventName = keyof ServerToClientEvents;
+export type ServerEventPayload<E extends ServerEventName> = Parameters<ServerToClientEvents[E]>[0];
+
+// ---- Runtime validation ----
+
+type Validator<T> = (data: unknown) => data is T;
+
+function isObject(data: unknown): data is Record<string, unknown> {
+  return typeof data === 'object' && data !== null && !Array.isArray(data);
+}
+
+function isStringArray(data: unknown): data is string[] {
+  return Array.isArray(data) && data.every((item) => typeof item === 'string');
+}
+
+function optional(value: unknown, check: (value: unknown) => boolean): boolean {
+  return value === undefined || check(value);
+}
+
+const isString = (value: unknown) => typeof value === 'string';
+const isNumber = (value: unknown) => typeof value === 'number' && !Number.isNaN(value);
+const isBoolean = (value: unknown) => typeof value === 'boolean';
+
+function isSemanticUnit(data: unknown): data is SemanticUnit {
+  return (
+    isObject(data) &&
+    isNumber(data.timestamp) &&
+    isNumber(data.confidence) &&
+    optional(data.id, isString) &&
+    optional(data.text, isString) &&
+    isObject(data.context) &&
+    isBoolean(data.context.complete) &&
+    isBoolean(data.context.requires_clarification) &&
+    optional(data.context.related_units, isStringArray) &&
+    optional(data.context.clarification_prompt, isString)
+  );
+}
+
+export function isTranscriptionResponse(data: unknown): data is TranscriptionResponse {
+  return (
+    isObject(data) &&
+    isBoolean(data.success) &&
+    isNumber(data.sequenceId) &&
+    optional(data.transcription, isString) &&
+    optional(data.error, isString) &&
+    optional(data.confidence, isNumber)
+  );
+}
+
+// ---- Proposals schema ----
+
+function semanticContextProblem(data: unknown): string | null {
+  if (!isObject(data)) return 'must be an object';
+  if (!optional(data.temporalReference, isString)) return 'temporalReference must be a string';
+  if (!optional(data.relatedEntities, isStringArray)) {
+    return 'relatedEntities must be an array of strings';
+  }
+  if (!isNumber(data.confidence)) return 'confidence must be a number';
+  return null;
+}
+
+// Returns what is wrong with a proposal, or null if it is well-formed
+function proposalProblem(data: unknown, requireId: boolean): string | null {
+  if (!isObject(data)) return 'not an object';
+  if (requireId && !(isString(data.id) && data.id)) return 'missing id';
+  if (!isString(data.description)) return 'description must be a string';
+  if (!isNumber(data.amount)) return 'amount must be a number';
+  if (!isString(data.suggestedCategory)) return 'suggestedCategory must be a string';
+  if (!isNumber(data.confidence)) return 'confidence must be a number';
+  if (!optional(data.sequenceId, isNumber)) return 'sequenceId must be a number';
+  if (data.semanticContext !== undefined) {
+    const problem = semanticContextProblem(data.semanticContext);
+    if (problem) return `semanticContext: ${problem}`;
+  }
+  return null;
+}
+
+function listProblem(
+  list: unknown,
+  field: string,
+  itemProblem: (item: unknown) => string | null
+): string | null {
+  if (list === undefined) return null;
+  if (!Array.isArray(list)) return `${field} must be an array`;
+  for (let i = 0; i < list.length; i++) {
+    const problem = itemProblem(list[i]);
+    if (problem) return `${field}[${i}]: ${problem}`;
+  }
+  return null;
+}
+
+/**
+ * Checks a proposals message against its schema. Returns a description of
+ * the first problem found, or null if the message is valid. Unversioned
+ * messages are only checked for their `proposals` field here; their
+ * contents are checked by parseLegacyProposals.
+ */
+export function proposalsPayloadProblem(data: unknown): string | null {
+  if (!isObject(data)) return 'payload is not an object';
+  if (data.version === undefined) {
+    return 'proposals' in data ? null : 'missing proposals';
+  }
+  if (data.version !== PROPOSALS_VERSION) {
+    return `unsupported version ${JSON.stringify(data.version)}`;
+  }
+  if (!optional(data.sequenceId, isNumber)) return 'sequenceId must be a number';
+  return (
+    listProblem(data.proposals, 'proposals', (p) => proposalProblem(p, true)) ??
+    listProblem(data.updates, 'updates', (p) => proposalProblem(p, true)) ??
+    listProblem(data.retractions, 'retractions', (id) => (isString(id) ? null : 'not a string'))
+  );
+}
+
+export type LegacyProposal = Omit<ServerProposal, 'id'>;
+
+// The JSON a legacy proposals string starts with. Older servers put the
+// model's commentary on the lines after it, so only a leading array or
+// object (which may span lines) or else the first line is read.
+function leadingJson(text: string): string {
+  if (text[0] !== '[' && text[0] !== '{') return text.split('\n')[0];
+  let depth = 0;
+  let inString = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '[' || char === '{') {
+      depth++;
+    } else if ((char === ']' || char === '}') && --depth === 0) {
+      return text.slice(0, i + 1);
+    }
+  }
+  return text;
+}
+
+/**
+ * Reads the proposals of an unversioned message, or describes why they
+ * could not be read.
+ */
+export function parseLegacyProposals(
+  raw: unknown
+): { proposals: LegacyProposal[] } | { problem: string } {
+  let parsed = raw;
+  if (typeof raw === 'string') {
+    const text = raw.trim();
+    if (text === '' || /^No proposals\.?$/.test(text)) return { proposals: [] };
+    try {
+      parsed = JSON.parse(leadingJson(text));
+    } catch (err) {
+      return { problem: `proposals does not start with valid JSON: ${String(err)}` };
+    }
+  }
+  if (parsed === null || parsed === undefined) return { proposals: [] };
+  if (typeof parsed !== 'object') {
+    return { problem: 'proposals must be an object or an array' };
+  }
+
+  const entries = Object.entries(parsed);
+  for (const [key, proposal] of entries) {
+    const problem = proposalProblem(proposal, false);
+    if (problem) return { problem: `proposals[${key}]: ${problem}` };
+  }
+  return { proposals: entries.map(([, proposal]) => proposal as LegacyProposal) };
+}
+
+// Why a payload failed validation, for the events with a detailed schema
+export function describeInvalidPayload(event: ServerEventName, data: unknown): string {
+  const problem = event === 'proposals' ? proposalsPayloadProblem(data) : null;
+  return problem ? `Invalid payload: ${problem}` : 'Invalid payload';
+}
+
+export const serverEventValidators: {
+  [E in ServerEventName]: Validator<ServerEventPayload<E>>;
+} = {
+  transcription: isTranscriptionResponse,
+  orderedTranscription: (data): data is OrderedTranscriptionPayload =>
+    isObject(data) &&
+    isString(data.transcription) &&
+    isNumber(data.sequenceId) &&
+    isBoolean(data.isComplete) &&
+    optional(data.confidence, isNumber),
+  proposals: (data): data is ProposalsPayload => proposalsPayloadProblem(data) === null,
+  semanticUpdate: (data): data is SemanticUpdatePayload => isObject(data),
+  contextProgress: (data): data is ContextProgressPayload =>
+    isObject(data) && optional(data.progress, isNumber) && optional(data.stage, isString),
+  learningUpdate: (data): data is LearningUpdatePayload =>
+    isObject(data) &&
+    optional(data.userPatterns, isStringArray) &&
+    optional(data.commonCorrections, isStringArray),
+  contextUpdate: (data): data is ContextUpdatePayload =>
+    isObject(data) &&
+    isBoolean(data.contextComplete) &&
+    isBoolean(data.enhancedUnderstanding) &&
+    optional(data.learningUpdates, isStringArray),
+  semanticUnitDetected: (data): data is SemanticUnitDetectedPayload =>
+    isObject(data) &&
+    isString(data.unit) &&
+    isNumber(data.confidence) &&
+    isBoolean(data.requiresMoreContext) &&
+    optional(data.unitId, isString) &&
+    optional(data.semanticUnit, isSemanticUnit),
+  error: (data): data is ServerErrorPayload => isObject(data) && isString(data.message),
+};
+
+// ---- Acknowledgements ----
+
+type AckEvents = {
+  [E in keyof ClientToServerEvents]: Parameters<ClientToServerEvents[E]> extends [
+    unknown,
+    (response: never) => void,
+  ]
+    ? E
+    : never;
+};
+
+export type AckEventName = AckEvents[keyof ClientToServerEvents];
+export type AckPayload<E extends AckEventName> = Parameters<ClientToServerEvents[E]>[0];
+export type AckResponse<E extends AckEventName> = Parameters<
+  Parameters<ClientToServerEvents[E]>[1]
+>[0];
+
+export const ackResponseValidators: {
+  [E in AckEventName]: Validator<AckResponse<E>>;
+} = {
+  audioDataPartial: isTranscriptionResponse,
+  audioStreamEnd: isTranscriptionResponse,
+};
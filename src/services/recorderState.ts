@@ -0,0 +1,97 @@
+/**
+ * recorderState.ts
+ *
+ * The recorder's lifecycle as a state machine. `transition` is a pure
+ * reducer; events that don't apply in the current state leave it unchanged.
+ *
+ *   idle → initializing → listening ⇄ paused
+ *                            ⇅          ↑
+ *                       reconnecting ───┘
+ *
+ * Any state can fail into error, and stop returns to idle.
+ */
+
+export type RecorderStatus =
+  'idle' | 'initializing' | 'listening' | 'paused' | 'reconnecting' | 'error';
+
+// Why capture is paused: the tab went to the background, or the browser
+// suspended the AudioContext on its own
+export type PauseReason = 'hidden' | 'suspended';
+
+export interface RecorderState {
+  status: RecorderStatus;
+  // A segment is being recorded; only while listening or reconnecting
+  recording: boolean;
+  pauseReason?: PauseReason;
+  error?: string;
+}
+
+export type RecorderEvent =
+  | { type: 'start' }
+  | { type: 'ready'; connected: boolean }
+  | { type: 'voiceStart' }
+  | { type: 'voiceStop' }
+  | { type: 'pause'; reason: PauseReason }
+  | { type: 'resume'; reason: PauseReason; connected: boolean }
+  | { type: 'disconnected' }
+  | { type: 'reconnected' }
+  | { type: 'fail'; message: string }
+  | { type: 'stop' };
+
+export const IDLE: RecorderState = { status: 'idle', recording: false };
+
+/**
+ * A capture session is running, even if paused or waiting for the server.
+ */
+export function isActive(state: RecorderState): boolean {
+  return (
+    state.status === 'listening' || state.status === 'paused' || state.status === 'reconnecting'
+  );
+}
+
+// Segments keep being captured and queued while the socket reconnects
+function canRecord(state: RecorderState): boolean {
+  return state.status === 'listening' || state.status === 'reconnecting';
+}
+
+export function transition(state: RecorderState, event: RecorderEvent): RecorderState {
+  switch (event.type) {
+    case 'start':
+      if (state.status !== 'idle' && state.status !== 'error') return state;
+      return { status: 'initializing', recording: false };
+
+    case 'ready':
+      if (state.status !== 'initializing') return state;
+      return { status: event.connected ? 'listening' : 'reconnecting', recording: false };
+
+    case 'voiceStart':
+    case 'voiceStop': {
+      const recording = event.type === 'voiceStart';
+      if (!canRecord(state) || state.recording === recording) return state;
+      return { ...state, recording };
+    }
+
+    case 'pause':
+      // A later reason replaces an earlier one, since that is what resuming must undo
+      if (!isActive(state) || state.pauseReason === event.reason) return state;
+      return { status: 'paused', recording: false, pauseReason: event.reason };
+
+    case 'resume':
+      if (state.status !== 'paused' || state.pauseReason !== event.reason) return state;
+      return { status: event.connected ? 'listening' : 'reconnecting', recording: false };
+
+    case 'disconnected':
+      if (state.status !== 'listening') return state;
+      return { ...state, status: 'reconnecting' };
+
+    case 'reconnected':
+      if (state.status !== 'reconnecting') return state;
+      return { ...state, status: 'listening' };
+
+    case 'fail':
+      return { status: 'error', recording: false, error: event.message };
+
+    case 'stop':
+      return IDLE;
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * recordingModes.ts
+ *
+ * How segments are started and ended: by voice activity (VAD), by holding a
+ * push-to-talk button or key, or hands-free after a wake word. Every mode
+ * cuts its segments from the same capture buffer and queues them the same
+ * way; only the trigger differs.
+ */
+import { readStoredJSON, writeStoredJSON } from './settings';
+import type { RecordingMode } from '../types';
+
+const MODE_KEY = 'agent-test-client:recording-mode';
+const WAKE_WORD_KEY = 'agent-test-client:wake-word';
+
+export const RECORDING_MODES: { value: RecordingMode; label: string }[] = [
+  { value: 'vad', label: 'Voice activity' },
+  { value: 'push-to-talk', label: 'Push to talk' },
+  { value: 'wake-word', label: 'Wake word' },
+];
+
+// KeyboardEvent.code held for push-to-talk
+export const PUSH_TO_TALK_KEY = 'Space';
+
+// Recordings of the wake word the spotter matches against
+export const WAKE_WORD_TAKES = 3;
+export const WAKE_WORD_TAKE_MS = 1500;
+// A take shorter than this (in 10 ms frames, after trimming) had no word in it
+export const MIN_WAKE_WORD_FRAMES = 15;
+// After the wake word, the command ends once the speaker is quiet this long
+export const WAKE_END_SILENCE_MS = 1500;
+// A wake word followed by less speech than this was not a command
+export const WAKE_MIN_COMMAND_MS = 800;
+
+export interface WakeWordModel {
+  // One MFCC sequence per take, from AudioCapture.extractFeatures
+  templates: number[][][];
+  createdAt: number;
+}
+
+export function loadRecordingMode(): RecordingMode {
+  return readStoredJSON<RecordingMode>(MODE_KEY) ?? 'vad';
+}
+
+export function saveRecordingMode(mode: RecordingMode) {
+  writeStoredJSON(MODE_KEY, mode);
+}
+
+export function loadWakeWordModel(): WakeWordModel | null {
+  return readStoredJSON<WakeWordModel>(WAKE_WORD_KEY);
+}
+
+export function saveWakeWordModel(model: WakeWordModel | null) {
+  writeStoredJSON(WAKE_WORD_KEY, model);
+}
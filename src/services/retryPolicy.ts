@@ -0,0 +1,49 @@
+/**
+ * retryPolicy.ts
+ *
+ * Backoff settings for sending queued audio chunks to the server.
+ */
+import { readStoredJSON, writeStoredJSON } from './settings';
+
+export interface RetryPolicy {
+  // Retries after the first attempt before a chunk is dead-lettered
+  maxRetries: number;
+  // How long to wait for the server's acknowledgement per attempt
+  timeoutMs: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Fraction of the delay randomized (0 = none, 1 = full jitter)
+  jitter: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 4,
+  timeoutMs: 5000,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+  jitter: 0.5,
+};
+
+const RETRY_POLICY_KEY = 'agent-test-client:retry';
+
+export function loadRetryPolicy(): RetryPolicy {
+  return { ...DEFAULT_RETRY_POLICY, ...readStoredJSON<Partial<RetryPolicy>>(RETRY_POLICY_KEY) };
+}
+
+export function saveRetryPolicy(policy: RetryPolicy) {
+  writeStoredJSON(RETRY_POLICY_KEY, policy);
+}
+
+/**
+ * Exponential backoff with jitter for the given retry attempt (1-based).
+ */
+export function computeBackoffDelay(
+  attempt: number,
+  policy: RetryPolicy,
+  random: () => number = Math.random
+): number {
+  const exponential = policy.baseDelayMs * 2 ** Math.max(0, attempt - 1);
+  const capped = Math.min(policy.maxDelayMs, exponential);
+  const jitter = capped * policy.jitter * random();
+  return Math.round(capped - jitter);
+}
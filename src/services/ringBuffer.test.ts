@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { msToSamples, SampleRingBuffer, samplesToMs } from './ringBuffer';
+
+// Samples whose values are their own absolute positions
+function ramp(from: number, length: number) {
+  return Float32Array.from({ length }, (_, i) => from + i);
+}
+
+describe('msToSamples / samplesToMs', () => {
+  it('converts with the real sample rate', () => {
+    expect(msToSamples(300, 48000)).toBe(14400);
+    expect(msToSamples(300, 44100)).toBe(13230);
+    expect(samplesToMs(14400, 48000)).toBe(300);
+  });
+});
+
+describe('SampleRingBuffer', () => {
+  it('rejects invalid capacities', () => {
+    expect(() => new SampleRingBuffer(0)).toThrow(RangeError);
+    expect(() => new SampleRingBuffer(1.5)).toThrow(RangeError);
+  });
+
+  it('slices by absolute position before it wraps', () => {
+    const ring = new SampleRingBuffer(10);
+    ring.write(ramp(0, 6));
+
+    expect(ring.position).toBe(6);
+    expect(ring.oldestPosition).toBe(0);
+    expect(Array.from(ring.slice(2, 5))).toEqual([2, 3, 4]);
+    expect(Array.from(ring.slice(4))).toEqual([4, 5]);
+  });
+
+  it('slices across the wraparound point', () => {
+    const ring = new SampleRingBuffer(10);
+    ring.write(ramp(0, 7));
+    ring.write(ramp(7, 7));
+
+    expect(ring.position).toBe(14);
+    expect(ring.oldestPosition).toBe(4);
+    // Positions 8..11 sit at offsets 8, 9, 0, 1
+    expect(Array.from(ring.slice(8, 12))).toEqual([8, 9, 10, 11]);
+    expect(Array.from(ring.slice(4))).toEqual([4, 5, 6, 7, 8, 9, 10, 11, 12, 13]);
+  });
+
+  it('keeps only the tail of a write longer than its capacity', () => {
+    const ring = new SampleRingBuffer(4);
+    ring.write(ramp(0, 3));
+    ring.write(ramp(3, 9));
+
+    expect(ring.position).toBe(12);
+    expect(Array.from(ring.slice(0))).toEqual([8, 9, 10, 11]);
+  });
+
+  it('clamps ranges that were overwritten or not yet written', () => {
+    const ring = new SampleRingBuffer(5);
+    ring.write(ramp(0, 12));
+
+    expect(ring.oldestPosition).toBe(7);
+    expect(Array.from(ring.slice(3, 9))).toEqual([7, 8]);
+    expect(Array.from(ring.slice(10, 20))).toEqual([10, 11]);
+    expect(ring.slice(0, 5)).toHaveLength(0);
+    expect(ring.slice(9, 9)).toHaveLength(0);
+  });
+
+  it('sizes itself from a duration', () => {
+    expect(SampleRingBuffer.forDuration(250, 16000).capacity).toBe(4000);
+    expect(SampleRingBuffer.forDuration(0, 16000).capacity).toBe(1);
+  });
+});
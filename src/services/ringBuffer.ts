@@ -0,0 +1,72 @@
+/**
+ * ringBuffer.ts
+ *
+ * Fixed-capacity store for mono Float32 samples addressed by absolute sample
+ * position: the first sample ever written is position 0, and positions keep
+ * counting up as older samples are overwritten. Durations are converted to
+ * sample counts with the real sample rate, never assumed frame sizes.
+ */
+
+export function msToSamples(ms: number, sampleRate: number): number {
+  return Math.round((ms / 1000) * sampleRate);
+}
+
+export function samplesToMs(samples: number, sampleRate: number): number {
+  return (samples / sampleRate) * 1000;
+}
+
+export class SampleRingBuffer {
+  private data: Float32Array;
+  // Absolute position of the next sample to be written
+  private written = 0;
+
+  constructor(readonly capacity: number) {
+    if (!Number.isInteger(capacity) || capacity <= 0) {
+      throw new RangeError(`Invalid ring buffer capacity: ${capacity}`);
+    }
+    this.data = new Float32Array(capacity);
+  }
+
+  static forDuration(ms: number, sampleRate: number) {
+    return new SampleRingBuffer(Math.max(1, msToSamples(ms, sampleRate)));
+  }
+
+  // Absolute position just past the newest sample
+  get position() {
+    return this.written;
+  }
+
+  // Absolute position of the oldest sample still held
+  get oldestPosition() {
+    return Math.max(0, this.written - this.capacity);
+  }
+
+  write(samples: Float32Array) {
+    // Only the last `capacity` samples can be kept anyway
+    const kept =
+      samples.length > this.capacity ? samples.subarray(samples.length - this.capacity) : samples;
+    const offset = (this.written + samples.length - kept.length) % this.capacity;
+
+    const head = Math.min(kept.length, this.capacity - offset);
+    this.data.set(kept.subarray(0, head), offset);
+    this.data.set(kept.subarray(head), 0);
+    this.written += samples.length;
+  }
+
+  /**
+   * Copies the samples in [start, end), clamped to what the buffer still
+   * holds.
+   */
+  slice(start: number, end = this.written): Float32Array {
+    const from = Math.max(start, this.oldestPosition);
+    const to = Math.min(end, this.written);
+    if (to <= from) return new Float32Array(0);
+
+    const out = new Float32Array(to - from);
+    const offset = from % this.capacity;
+    const head = Math.min(out.length, this.capacity - offset);
+    out.set(this.data.subarray(offset, offset + head), 0);
+    out.set(this.data.subarray(0, out.length - head), head);
+    return out;
+  }
+}
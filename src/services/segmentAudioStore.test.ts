@@ -0,0 +1,43 @@
+import 'fake-indexeddb/auto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getSegmentAudio, storeSegmentAudio } from './segmentAudioStore';
+
+let clock = 0;
+
+function segment(id: string, bytes: number) {
+  return {
+    id,
+    sequenceId: 0,
+    audio: new ArrayBuffer(bytes),
+    mimeType: 'audio/wav',
+    durationMs: 100,
+    peaks: [],
+  };
+}
+
+describe('storeSegmentAudio', () => {
+  beforeEach(() => {
+    vi.spyOn(Date, 'now').mockImplementation(() => ++clock);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('evicts the oldest segments over the cap', async () => {
+    await storeSegmentAudio(segment('a', 40), 100);
+    await storeSegmentAudio(segment('b', 40), 100);
+    await storeSegmentAudio(segment('c', 40), 100);
+
+    expect(await getSegmentAudio('a')).toBeUndefined();
+    expect((await getSegmentAudio('b'))?.byteLength).toBe(40);
+    expect((await getSegmentAudio('c'))?.byteLength).toBe(40);
+  });
+
+  it('always keeps the newest segment', async () => {
+    await storeSegmentAudio(segment('big', 500), 100);
+    expect(await getSegmentAudio('big')).toBeDefined();
+    expect(await getSegmentAudio('c')).toBeUndefined();
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * segmentAudioStore.ts
+ *
+ * Keeps the audio of recent segments so they can be played back next to
+ * their transcription or proposal. Unlike the audio queue, entries outlive
+ * the server's acknowledgement; the store is capped by size and the oldest
+ * segments are evicted first.
+ */
+import { STORES, requestToPromise, withStore } from './db';
+
+// Total encoded audio kept, across sessions
+export const MAX_STORED_AUDIO_BYTES = 50 * 1024 * 1024;
+// Bars in the stored waveform
+const WAVEFORM_BUCKETS = 120;
+
+export interface StoredSegmentAudio {
+  id: string;
+  sequenceId: number;
+  audio: ArrayBuffer;
+  mimeType: string;
+  durationMs: number;
+  // Peak amplitude per bucket (0-1), so the waveform is drawn without decoding
+  peaks: number[];
+  byteLength: number;
+  storedAt: number;
+}
+
+/**
+ * Reduces samples to `buckets` peak amplitudes.
+ */
+export function computePeaks(samples: Float32Array, buckets = WAVEFORM_BUCKETS): number[] {
+  const size = Math.max(1, Math.ceil(samples.length / buckets));
+  const peaks: number[] = [];
+  for (let start = 0; start < samples.length; start += size) {
+    let peak = 0;
+    for (let i = start; i < Math.min(samples.length, start + size); i++) {
+      peak = Math.max(peak, Math.abs(samples[i]));
+    }
+    peaks.push(Math.min(1, peak));
+  }
+  return peaks;
+}
+
+/**
+ * Walks the store from newest to oldest and deletes whatever no longer fits
+ * under the cap. The newest segment is always kept. Only the index keys are
+ * read, never the audio.
+ */
+function evictOldest(store: IDBObjectStore, maxBytes: number): Promise<number> {
+  return new Promise((resolve, reject) => {
+    let total = 0;
+    let evicted = 0;
+    const request = store.index('storedAtSize').openKeyCursor(null, 'prev');
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve(evicted);
+        return;
+      }
+      const [, byteLength] = cursor.key as [number, number];
+      if (total > 0 && total + byteLength > maxBytes) {
+        store.delete(cursor.primaryKey);
+        evicted++;
+      } else {
+        total += byteLength;
+      }
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error ?? new Error('IndexedDB cursor failed'));
+  });
+}
+
+/**
+ * Stores a segment's audio, evicting the oldest segments over the cap.
+ */
+export async function storeSegmentAudio(
+  segment: Omit<StoredSegmentAudio, 'byteLength' | 'storedAt'>,
+  maxBytes = MAX_STORED_AUDIO_BYTES
+): Promise<void> {
+  const record: StoredSegmentAudio = {
+    ...segment,
+    byteLength: segment.audio.byteLength,
+    storedAt: Date.now(),
+  };
+  const evicted = await withStore(STORES.segmentAudio, 'readwrite', async (store) => {
+    await requestToPromise(store.put(record));
+    return evictOldest(store, maxBytes);
+  });
+  if (evicted > 0) {
+    console.log('[PLAYBACK] Evicted', evicted, 'old segments from the audio store');
+  }
+}
+
+export async function getSegmentAudio(id: string): Promise<StoredSegmentAudio | undefined> {
+  return withStore(STORES.segmentAudio, 'readonly', (store) =>
+    requestToPromise(store.get(id) as IDBRequest<StoredSegmentAudio | undefined>)
+  );
+}
@@ -0,0 +1,64 @@
+/**
+ * segmentSplitter.ts
+ *
+ * The voice-activity-detection library ignores maxSpeechDuration, so a long
+ * dictation would otherwise become one huge segment sent only after the
+ * speaker stops. SegmentSplitter watches the VAD amplitude stream and picks a
+ * point to cut: the first dip between words once the segment nears its
+ * maximum length, or the maximum length itself if no dip comes.
+ */
+
+export interface SegmentSplitterOptions {
+  maxDurationMs: number;
+  // How early before maxDurationMs a low-energy dip may be used as the cut
+  searchWindowMs?: number;
+  // A reading below this fraction of the segment's average counts as a dip
+  dipRatio?: number;
+}
+
+const DEFAULT_SEARCH_WINDOW_MS = 3000;
+const DEFAULT_DIP_RATIO = 0.5;
+
+export class SegmentSplitter {
+  private startedAt: number | null = null;
+  private sumAmplitude = 0;
+  private readings = 0;
+
+  constructor(private options: SegmentSplitterOptions) {}
+
+  // Segments shorter than the search window would be cut as soon as they start
+  private get searchWindowMs() {
+    const window = this.options.searchWindowMs ?? DEFAULT_SEARCH_WINDOW_MS;
+    return Math.min(window, this.options.maxDurationMs / 2);
+  }
+
+  /**
+   * Begins timing a new segment (at voice start, and again after each cut).
+   */
+  start(now = Date.now()) {
+    this.startedAt = now;
+    this.sumAmplitude = 0;
+    this.readings = 0;
+  }
+
+  stop() {
+    this.startedAt = null;
+  }
+
+  /**
+   * Feeds one amplitude reading. Returns true when the segment should be cut
+   * at this point.
+   */
+  update(amplitude: number, now = Date.now()): boolean {
+    if (this.startedAt === null) return false;
+
+    const elapsed = now - this.startedAt;
+    const average = this.readings > 0 ? this.sumAmplitude / this.readings : amplitude;
+    this.sumAmplitude += amplitude;
+    this.readings++;
+
+    if (elapsed >= this.options.maxDurationMs) return true;
+    if (elapsed < this.options.maxDurationMs - this.searchWindowMs) return false;
+    return amplitude < average * (this.options.dipRatio ?? DEFAULT_DIP_RATIO);
+  }
+}
@@ -0,0 +1,174 @@
+/**
+ * semanticContext.ts
+ *
+ * Pure reducers that fold the server's semantic events into the
+ * SemanticContext sent along with every audio chunk.
+ */
+import type {
+  ContextUpdatePayload,
+  LearningUpdatePayload,
+  SemanticUnitDetectedPayload,
+} from './protocol';
+import type { IdentifiedSemanticUnit, SemanticContext, SemanticUnit } from '../types';
+
+// Keep the context small: it travels with every chunk
+const MAX_CONTEXT_ITEMS = 20;
+
+export function createSemanticContext(): SemanticContext {
+  return {
+    timestamp: 0,
+    isComplete: false,
+    confidence: 0,
+    temporalContext: {
+      previousMentions: [],
+      relatedExpenses: [],
+    },
+    learningContext: {
+      userPatterns: [],
+      commonCorrections: [],
+    },
+  };
+}
+
+/**
+ * Appends items that aren't already present, keeping only the newest `max`.
+ */
+function appendUnique(list: string[] = [], items: string[] = [], max = MAX_CONTEXT_ITEMS) {
+  const next = [...list];
+  for (const item of items) {
+    const trimmed = item.trim();
+    if (trimmed && !next.includes(trimmed)) next.push(trimmed);
+  }
+  return next.slice(-max);
+}
+
+function withTemporal(
+  context: SemanticContext,
+  changes: Partial<NonNullable<SemanticContext['temporalContext']>>
+): SemanticContext {
+  return {
+    ...context,
+    temporalContext: {
+      previousMentions: [],
+      relatedExpenses: [],
+      ...context.temporalContext,
+      ...changes,
+    },
+  };
+}
+
+function withLearning(
+  context: SemanticContext,
+  changes: Partial<NonNullable<SemanticContext['learningContext']>>
+): SemanticContext {
+  return {
+    ...context,
+    learningContext: {
+      userPatterns: [],
+      commonCorrections: [],
+      ...context.learningContext,
+      ...changes,
+    },
+  };
+}
+
+/**
+ * Normalizes a semanticUnitDetected payload into a SemanticUnit with an id.
+ */
+export function toSemanticUnit(data: SemanticUnitDetectedPayload): IdentifiedSemanticUnit {
+  const unit = data.semanticUnit;
+  return {
+    id: data.unitId ?? unit?.id ?? crypto.randomUUID(),
+    text: unit?.text ?? data.unit,
+    timestamp: unit?.timestamp ?? Date.now(),
+    confidence: unit?.confidence ?? data.confidence,
+    context: unit?.context ?? {
+      complete: !data.requiresMoreContext,
+      requires_clarification: data.requiresMoreContext,
+    },
+  };
+}
+
+export function applySemanticUnit(context: SemanticContext, unit: SemanticUnit): SemanticContext {
+  const next = withTemporal(context, {
+    previousMentions: appendUnique(context.temporalContext?.previousMentions, [unit.text ?? '']),
+  });
+  return {
+    ...next,
+    timestamp: unit.timestamp,
+    confidence: unit.confidence,
+    isComplete: unit.context.complete && !unit.context.requires_clarification,
+  };
+}
+
+export function applyContextUpdate(
+  context: SemanticContext,
+  data: ContextUpdatePayload
+): SemanticContext {
+  const next = withLearning(context, {
+    userPatterns: appendUnique(context.learningContext?.userPatterns, data.learningUpdates),
+  });
+  return { ...next, timestamp: Date.now(), isComplete: data.contextComplete };
+}
+
+export function applyLearningUpdate(
+  context: SemanticContext,
+  data: LearningUpdatePayload
+): SemanticContext {
+  return withLearning(context, {
+    userPatterns: appendUnique(context.learningContext?.userPatterns, data.userPatterns),
+    commonCorrections: appendUnique(
+      context.learningContext?.commonCorrections,
+      data.commonCorrections
+    ),
+  });
+}
+
+/**
+ * Adds the user's own transcript corrections ("misheard → intended").
+ */
+export function applyCorrections(context: SemanticContext, corrections: string[]): SemanticContext {
+  return withLearning(context, {
+    commonCorrections: appendUnique(context.learningContext?.commonCorrections, corrections),
+  });
+}
+
+/**
+ * The prompt to show for a unit the server couldn't resolve on its own.
+ */
+export function clarificationPrompt(unit: SemanticUnit): string {
+  return unit.context.clarification_prompt ?? `Could you tell me more about “${unit.text}”?`;
+}
+
+/**
+ * Builds the unit describing a user's answer to a clarification prompt,
+ * linked back to the unit it clarifies via related_units.
+ */
+export function buildClarificationReply(
+  unit: IdentifiedSemanticUnit,
+  text?: string
+): IdentifiedSemanticUnit {
+  return {
+    id: crypto.randomUUID(),
+    text,
+    timestamp: Date.now(),
+    confidence: 1,
+    context: {
+      complete: true,
+      requires_clarification: false,
+      related_units: [unit.id],
+    },
+  };
+}
+
+/**
+ * Records expenses the server has proposed so later chunks can refer back.
+ */
+export function applyRelatedExpenses(
+  context: SemanticContext,
+  expenses: string[]
+): SemanticContext {
+  return withTemporal(context, {
+    relatedExpenses: appendUnique(context.temporalContext?.relatedExpenses, expenses),
+  });
+}
@@ -0,0 +1,115 @@
+/**
+ * semanticContextTracker.ts
+ *
+ * The engine's semantic context: the server's semantic events, the expenses
+ * it has proposed and the user's corrections, folded into the
+ * SemanticContext sent with every chunk. Also keeps the recent semantic
+ * units and the clarification the next segment answers.
+ */
+import {
+  applyContextUpdate,
+  applyCorrections,
+  applyLearningUpdate,
+  applyRelatedExpenses,
+  applySemanticUnit,
+  buildClarificationReply,
+  createSemanticContext,
+  toSemanticUnit,
+} from './semanticContext';
+import type {
+  ContextProgressPayload,
+  ContextUpdatePayload,
+  LearningUpdatePayload,
+  SemanticUnitDetectedPayload,
+} from './protocol';
+import type { TypedEmitter } from './typedEvents';
+import type { VoiceExpenseEngineEvents } from './voiceExpenseEngine';
+import type { IdentifiedSemanticUnit, SemanticContext } from '../types';
+
+// Recent units shown in the side panel
+const MAX_SEMANTIC_UNITS = 10;
+
+export class SemanticContextTracker {
+  private context: SemanticContext = createSemanticContext();
+  private units: IdentifiedSemanticUnit[] = [];
+  private progress: ContextProgressPayload | null = null;
+
+  constructor(private events: TypedEmitter<VoiceExpenseEngineEvents>) {}
+
+  getContext(): SemanticContext {
+    return this.context;
+  }
+
+  getUnits(): IdentifiedSemanticUnit[] {
+    return this.units;
+  }
+
+  getProgress(): ContextProgressPayload | null {
+    return this.progress;
+  }
+
+  // The unit waiting for the user to clarify it, if any
+  getActiveClarification(): IdentifiedSemanticUnit | null {
+    return this.units.find((u) => u.context.requires_clarification) ?? null;
+  }
+
+  applyUnit(data: SemanticUnitDetectedPayload) {
+    const unit = toSemanticUnit(data);
+    this.updateUnits((prev) =>
+      [...prev.filter((u) => u.id !== unit.id), unit].slice(-MAX_SEMANTIC_UNITS)
+    );
+    this.updateContext((context) => applySemanticUnit(context, unit));
+  }
+
+  applyContextUpdate(data: ContextUpdatePayload) {
+    this.updateContext((context) => applyContextUpdate(context, data));
+  }
+
+  applyLearningUpdate(data: LearningUpdatePayload) {
+    this.updateContext((context) => applyLearningUpdate(context, data));
+  }
+
+  setProgress(progress: ContextProgressPayload) {
+    this.progress = progress;
+    this.events.emit('contextProgress', progress);
+  }
+
+  addRelatedExpenses(expenses: string[]) {
+    this.updateContext((context) => applyRelatedExpenses(context, expenses));
+  }
+
+  addCorrections(corrections: string[]) {
+    this.updateContext((context) => applyCorrections(context, corrections));
+  }
+
+  // Claims the clarification on screen for the next segment, if any
+  takeClarificationReply(): IdentifiedSemanticUnit | undefined {
+    const unit = this.getActiveClarification();
+    if (!unit) return undefined;
+
+    console.log('[VAD] Segment tagged as clarification reply to unit:', unit.id);
+    this.resolveClarification(unit.id);
+    return buildClarificationReply(unit);
+  }
+
+  // Mark a unit as clarified once the user has answered (or dismissed) it
+  resolveClarification(unitId: string) {
+    this.updateUnits((prev) =>
+      prev.map((u) =>
+        u.id === unitId
+          ? { ...u, context: { ...u.context, complete: true, requires_clarification: false } }
+          : u
+      )
+    );
+  }
+
+  private updateContext(reducer: (context: SemanticContext) => SemanticContext) {
+    this.context = reducer(this.context);
+    this.events.emit('semanticContext', this.context);
+  }
+
+  private updateUnits(reducer: (units: IdentifiedSemanticUnit[]) => IdentifiedSemanticUnit[]) {
+    this.units = reducer(this.units);
+    this.events.emit('semanticUnits', this.units);
+  }
+}
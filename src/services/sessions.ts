@@ -0,0 +1,123 @@
+/**
+ * sessions.ts
+ *
+ * Recording sessions: everything produced between starting and stopping
+ * (and any later resumes) is saved as one RecordingSession in IndexedDB,
+ * so past sessions can be browsed, searched and continued.
+ */
+import type { DSPOptions } from './audioMerging';
+import { STORES, requestToPromise, withStore } from './db';
+import type { AudioCodec, Proposal, ProposalDiff, TranscriptSegment } from '../types';
+
+export type ProposalDecision = 'pending' | 'approved' | 'rejected';
+
+export interface SessionProposal {
+  proposal: Proposal;
+  decision: ProposalDecision;
+  decidedAt?: number;
+  // Edits made before approving
+  diff?: ProposalDiff;
+  rejectionReason?: string;
+}
+
+// The capture settings a session was (last) recorded with
+export interface SessionSettings {
+  vadProfileId: string;
+  vadProfileName: string;
+  codec: AudioCodec;
+  dsp: DSPOptions;
+  streaming: boolean;
+}
+
+export interface RecordingSession {
+  id: string;
+  name: string;
+  startedAt: number;
+  // Unset while the session is being recorded or has been resumed
+  endedAt?: number;
+  transcript: TranscriptSegment[];
+  proposals: SessionProposal[];
+  // sequenceId the next segment gets when the session is resumed
+  nextSequenceId: number;
+  settings: SessionSettings;
+}
+
+type SessionListener = () => void;
+
+const listeners = new Set<SessionListener>();
+
+/**
+ * Registers a listener that fires after any session write.
+ * Returns an unsubscribe function.
+ */
+export function subscribeToSessions(listener: SessionListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function notifyListeners() {
+  listeners.forEach((listener) => listener());
+}
+
+export function createSession(settings: SessionSettings, now = Date.now()): RecordingSession {
+  return {
+    id: crypto.randomUUID(),
+    name: `Session ${new Date(now).toLocaleString()}`,
+    startedAt: now,
+    transcript: [],
+    proposals: [],
+    nextSequenceId: 0,
+    settings,
+  };
+}
+
+/**
+ * True if the query appears in the session's name, transcript or proposals.
+ */
+export function matchesSessionQuery(session: RecordingSession, query: string): boolean {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return true;
+  return [
+    session.name,
+    ...session.transcript.map((segment) => segment.text),
+    ...session.proposals.map((p) => p.proposal.description),
+  ].some((text) => text.toLowerCase().includes(needle));
+}
+
+export async function listSessions(): Promise<RecordingSession[]> {
+  const sessions = await withStore(STORES.sessions, 'readonly', (store) =>
+    requestToPromise(store.getAll() as IDBRequest<RecordingSession[]>)
+  );
+  return sessions.sort((a, b) => b.startedAt - a.startedAt);
+}
+
+export async function getSession(id: string): Promise<RecordingSession | undefined> {
+  return withStore(STORES.sessions, 'readonly', (store) =>
+    requestToPromise(store.get(id) as IDBRequest<RecordingSession | undefined>)
+  );
+}
+
+export async function saveSession(session: RecordingSession): Promise<void> {
+  await withStore(STORES.sessions, 'readwrite', (store) => requestToPromise(store.put(session)));
+  notifyListeners();
+}
+
+export async function renameSession(id: string, name: string): Promise<void> {
+  await withStore(STORES.sessions, 'readwrite', async (store) => {
+    const existing = await requestToPromise(
+      store.get(id) as IDBRequest<RecordingSession | undefined>
+    );
+    if (!existing) {
+      throw new Error(`Session ${id} not found`);
+    }
+    await requestToPromise(store.put({ ...existing, name }));
+  });
+  notifyListeners();
+}
+
+export async function deleteSession(id: string): Promise<void> {
+  await withStore(STORES.sessions, 'readwrite', (store) => requestToPromise(store.delete(id)));
+  notifyListeners();
+}
@@ -0,0 +1,13 @@
+import { describe, expect, it } from 'vitest';
+import { queryOverrides } from './settings';
+
+describe('queryOverrides', () => {
+  it('applies the transport from the URL', () => {
+    expect(queryOverrides('?transport=polling')).toEqual({ transport: 'polling' });
+    expect(queryOverrides('?transport=carrier-pigeon')).toEqual({});
+  });
+
+  it('never takes the server or auth token from the URL', () => {
+    expect(queryOverrides('?server=https://evil.example&token=abc')).toEqual({});
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * settings.ts
+ *
+ * Client settings persisted to localStorage.
+ *
+ * Connection settings are resolved in this order, later sources winning:
+ *   1) built-in defaults
+ *   2) Vite env vars (VITE_BACKEND_URL, VITE_AUTH_TOKEN, VITE_SOCKET_TRANSPORT,
+ *      VITE_RECONNECTION_ATTEMPTS)
+ *   3) values saved from the settings panel
+ *   4) the ?transport= query param for one-off overrides
+ *
+ * The server URL and auth token are never taken from the URL: a crafted link
+ * could otherwise send the saved token and the microphone audio to another
+ * server, and a token in the URL leaks through history and referrers.
+ */
+
+export type TransportPreference = 'auto' | 'websocket' | 'polling';
+
+export interface ReconnectionPolicy {
+  enabled: boolean;
+  // 0 means keep retrying forever
+  maxAttempts: number;
+  delayMs: number;
+  delayMaxMs: number;
+}
+
+export interface ConnectionSettings {
+  serverUrl: string;
+  authToken: string;
+  transport: TransportPreference;
+  reconnection: ReconnectionPolicy;
+}
+
+const CONNECTION_SETTINGS_KEY = 'agent-test-client:connection';
+
+const TRANSPORTS: TransportPreference[] = ['auto', 'websocket', 'polling'];
+
+export const DEFAULT_CONNECTION_SETTINGS: ConnectionSettings = {
+  serverUrl: 'http://localhost:3000',
+  authToken: '',
+  transport: 'auto',
+  reconnection: {
+    enabled: true,
+    maxAttempts: 5,
+    delayMs: 1000,
+    delayMaxMs: 10000,
+  },
+};
+
+/**
+ * Reads a JSON value from localStorage, ignoring missing or corrupt entries.
+ */
+export function readStoredJSON<T>(key: string): T | null {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : null;
+  } catch (err) {
+    console.warn('[SETTINGS] Ignoring unreadable stored value:', key, err);
+    return null;
+  }
+}
+
+export function writeStoredJSON(key: string, value: unknown) {
+  localStorage.setItem(key, JSON.stringify(value));
+}
+
+function isTransport(value: unknown): value is TransportPreference {
+  return TRANSPORTS.includes(value as TransportPreference);
+}
+
+function envOverrides(): Partial<ConnectionSettings> {
+  const env = import.meta.env;
+  const overrides: Partial<ConnectionSettings> = {};
+
+  if (env.VITE_BACKEND_URL) overrides.serverUrl = env.VITE_BACKEND_URL;
+  if (env.VITE_AUTH_TOKEN) overrides.authToken = env.VITE_AUTH_TOKEN;
+  if (isTransport(env.VITE_SOCKET_TRANSPORT)) overrides.transport = env.VITE_SOCKET_TRANSPORT;
+
+  const attempts = Number(env.VITE_RECONNECTION_ATTEMPTS);
+  if (env.VITE_RECONNECTION_ATTEMPTS && Number.isFinite(attempts)) {
+    overrides.reconnection = { ...DEFAULT_CONNECTION_SETTINGS.reconnection, maxAttempts: attempts };
+  }
+
+  return overrides;
+}
+
+/**
+ * Query params that override the connection settings for this page load.
+ */
+export function queryOverrides(search = window.location.search): Partial<ConnectionSettings> {
+  const params = new URLSearchParams(search);
+  const overrides: Partial<ConnectionSettings> = {};
+
+  const transport = params.get('transport');
+  if (isTransport(transport)) overrides.transport = transport;
+
+  return overrides;
+}
+
+function mergeSettings(
+  base: ConnectionSettings,
+  overrides: Partial<ConnectionSettings> | null
+): ConnectionSettings {
+  if (!overrides) return base;
+  return {
+    ...base,
+    ...overrides,
+    reconnection: { ...base.reconnection, ...overrides.reconnection },
+  };
+}
+
+/**
+ * Settings as saved from the panel, without query param overrides.
+ */
+export function loadSavedConnectionSettings(): ConnectionSettings {
+  const withEnv = mergeSettings(DEFAULT_CONNECTION_SETTINGS, envOverrides());
+  return mergeSettings(
+    withEnv,
+    readStoredJSON<Partial<ConnectionSettings>>(CONNECTION_SETTINGS_KEY)
+  );
+}
+
+/**
+ * Effective settings for this page load.
+ */
+export function loadConnectionSettings(): ConnectionSettings {
+  return mergeSettings(loadSavedConnectionSettings(), queryOverrides());
+}
+
+export function saveConnectionSettings(settings: ConnectionSettings) {
+  writeStoredJSON(CONNECTION_SETTINGS_KEY, settings);
+}
+
+export function clearConnectionSettings() {
+  localStorage.removeItem(CONNECTION_SETTINGS_KEY);
+}
@@ -1,62 +1,237 @@
 // socket.ts
-import { io } from 'socket.io-client';
-
-const BACKEND_URL = 'http://localhost:3000';
-
-export const socket = io(BACKEND_URL, {
-  reconnection: true,
-  reconnectionAttempts: 5,
-  reconnectionDelay: 1000,
-});
-
-// Enhanced socket events for semantic processing
-socket.on('semanticUpdate', (data) => {
-  console.log('[SOCKET] Semantic understanding update:', data);
-});
-
-socket.on('contextProgress', (data) => {
-  console.log('[SOCKET] Context building progress:', data);
-});
-
-socket.on('learningUpdate', (data) => {
-  console.log('[SOCKET] Learning system update:', data);
-});
-
-socket.on(
-  'contextUpdate',
-  (data: {
-    contextComplete: boolean;
-    enhancedUnderstanding: boolean;
-    learningUpdates?: string[];
-  }) => {
-    console.log('[SOCKET] Context update:', data);
+import { io, Socket } from 'socket.io-client';
+import {
+  ackResponseValidators,
+  describeInvalidPayload,
+  PROPOSALS_VERSION,
+  serverEventValidators,
+  type AckEventName,
+  type AckPayload,
+  type AckResponse,
+  type ClientToServerEvents,
+  type ServerEventName,
+  type ServerEventPayload,
+  type ServerToClientEvents,
+} from './protocol';
+
+import type { ConnectionSettings } from './settings';
+
+type ClientSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
+
+export type ConnectionState =
+  'connecting' | 'connected' | 'reconnecting' | 'disconnected' | 'error';
+
+export interface ConnectionStatus {
+  state: ConnectionState;
+  serverUrl: string;
+  attempt?: number;
+  error?: string;
+}
+
+export interface ProtocolError {
+  event: string;
+  payload: unknown;
+  message: string;
+  receivedAt: number;
+}
+
+type Handler<E extends ServerEventName> = (data: ServerEventPayload<E>) => void;
+
+const handlers: { [E in ServerEventName]?: Set<Handler<E>> } = {};
+const connectionListeners = new Set<(status: ConnectionStatus) => void>();
+const protocolErrorListeners = new Set<(error: ProtocolError) => void>();
+
+/**
+ * Reports a server payload that could not be used, to the console and to
+ * subscribeToProtocolErrors listeners.
+ */
+export function reportProtocolError(event: string, payload: unknown, message: string) {
+  console.warn(`[SOCKET] ${message}:`, event, payload);
+  const error: ProtocolError = { event, payload, message, receivedAt: Date.now() };
+  protocolErrorListeners.forEach((listener) => listener(error));
+}
+
+// Validate every server event once, then fan it out to subscribers
+function dispatch<E extends ServerEventName>(event: E, data: unknown) {
+  const isValid = serverEventValidators[event];
+  if (!isValid(data)) {
+    reportProtocolError(event, data, describeInvalidPayload(event, data));
+    return;
   }
-);
+  console.log(`[SOCKET] ${event}:`, data);
+  const eventHandlers: Set<Handler<E>> | undefined = handlers[event];
+  eventHandlers?.forEach((handler) => handler(data));
+}
+
+// Created by configureSocket, so importing this module connects nothing
+let socket: ClientSocket | null = null;
+let connectionStatus: ConnectionStatus = { state: 'disconnected', serverUrl: '' };
+
+function currentSocket(): ClientSocket {
+  if (!socket) throw new Error('Socket not configured');
+  return socket;
+}
 
-socket.on(
-  'semanticUnitDetected',
-  (data: { unit: string; confidence: number; requiresMoreContext: boolean }) => {
-    console.log('[SOCKET] Semantic unit detected:', data);
+// Retry immediately when the browser regains network access
+function reconnectWhenOnline() {
+  if (socket && !socket.connected) {
+    console.log('[SOCKET] Network back online, reconnecting');
+    socket.connect();
   }
-);
+}
+
+function setConnectionStatus(status: ConnectionStatus) {
+  connectionStatus = status;
+  connectionListeners.forEach((listener) => listener(status));
+}
+
+function createSocket(settings: ConnectionSettings): ClientSocket {
+  const { reconnection } = settings;
+  const next: ClientSocket = io(settings.serverUrl, {
+    auth: settings.authToken ? { token: settings.authToken } : undefined,
+    transports: settings.transport === 'auto' ? undefined : [settings.transport],
+    // Lets the server pick the proposals message format this client reads
+    query: { proposalsVersion: String(PROPOSALS_VERSION) },
+    reconnection: reconnection.enabled,
+    reconnectionAttempts: reconnection.maxAttempts > 0 ? reconnection.maxAttempts : Infinity,
+    reconnectionDelay: reconnection.delayMs,
+    reconnectionDelayMax: reconnection.delayMaxMs,
+  });
+
+  (Object.keys(serverEventValidators) as ServerEventName[]).forEach((event) => {
+    next.on(event, (data: unknown) => dispatch(event, data));
+  });
 
-// Add handler for ordered transcriptions
-socket.on(
-  'orderedTranscription',
-  (data: { transcription: string; sequenceId: number; isComplete: boolean }) => {
-    console.log('[SOCKET] Received ordered transcription:', data);
+  const status = (state: ConnectionState, extra?: Partial<ConnectionStatus>) =>
+    setConnectionStatus({ state, serverUrl: settings.serverUrl, ...extra });
+
+  next.on('connect', () => {
+    console.log('[SOCKET] Connected to', settings.serverUrl);
+    status('connected');
+  });
+
+  // Socket connection error handling
+  next.on('connect_error', (error: Error) => {
+    console.error('[CLIENT] Socket connection error:', error);
+    // While the manager is still retrying this is just a failed attempt
+    if (!next.active) {
+      status('error', { error: error.message });
+    } else if (connectionStatus.state !== 'reconnecting') {
+      status('connecting', { error: error.message });
+    }
+  });
+
+  next.on('disconnect', (reason: string) => {
+    console.error('[CLIENT] Socket disconnected:', reason);
+    status(next.active ? 'reconnecting' : 'disconnected', { error: reason });
+  });
+
+  next.io.on('reconnect_attempt', (attempt: number) => {
+    status('reconnecting', { attempt, error: connectionStatus.error });
+  });
+
+  next.io.on('reconnect_failed', () => {
+    console.error('[CLIENT] Gave up reconnecting to', settings.serverUrl);
+    status('error', { error: 'Gave up reconnecting' });
+  });
+
+  return next;
+}
+
+/**
+ * Connects with `settings`, replacing the current connection if there is
+ * one. Called once at startup; subscriptions carry over to a new socket.
+ */
+export function configureSocket(settings: ConnectionSettings) {
+  if (socket) {
+    socket.removeAllListeners();
+    socket.io.removeAllListeners();
+    socket.disconnect();
+  } else {
+    window.addEventListener('online', reconnectWhenOnline);
   }
-);
+  setConnectionStatus({ state: 'connecting', serverUrl: settings.serverUrl });
+  socket = createSocket(settings);
+}
+
+/**
+ * Subscribes to a validated server event. Returns an unsubscribe function.
+ */
+export function subscribe<E extends ServerEventName>(event: E, handler: Handler<E>): () => void {
+  const eventHandlers: Set<Handler<E>> = handlers[event] ?? new Set();
+  handlers[event] = eventHandlers;
+  eventHandlers.add(handler);
+  return () => {
+    eventHandlers.delete(handler);
+  };
+}
+
+/**
+ * Notifies the listener whenever the connection status changes.
+ */
+export function subscribeToConnectionStatus(
+  listener: (status: ConnectionStatus) => void
+): () => void {
+  connectionListeners.add(listener);
+  return () => {
+    connectionListeners.delete(listener);
+  };
+}
+
+/**
+ * Notifies the listener about server payloads that failed validation.
+ */
+export function subscribeToProtocolErrors(listener: (error: ProtocolError) => void): () => void {
+  protocolErrorListeners.add(listener);
+  return () => {
+    protocolErrorListeners.delete(listener);
+  };
+}
+
+export function getConnectionStatus(): ConnectionStatus {
+  return connectionStatus;
+}
+
+export function isConnected(): boolean {
+  return socket?.connected ?? false;
+}
+
+/**
+ * Fire-and-forget emit of a client event.
+ */
+export function emitToServer<E extends keyof ClientToServerEvents>(
+  event: E,
+  ...args: Parameters<ClientToServerEvents[E]>
+) {
+  currentSocket().emit(event, ...args);
+}
 
-// Socket connection error handling
-socket.on('connect_error', (error: Error) => {
-  console.error('[CLIENT] Socket connection error:', error);
-});
+/**
+ * Emits an event that the server acknowledges, resolving with the validated
+ * acknowledgement or rejecting with 'Server timeout'.
+ */
+export function requestFromServer<E extends AckEventName>(
+  event: E,
+  payload: AckPayload<E>,
+  timeoutMs: number
+): Promise<AckResponse<E>> {
+  return new Promise((resolve, reject) => {
+    const target = currentSocket();
+    const timeout = setTimeout(() => reject(new Error('Server timeout')), timeoutMs);
 
-socket.on('disconnect', (reason: string) => {
-  console.error('[CLIENT] Socket disconnected:', reason);
-});
+    // The acknowledgement is checked here rather than trusted to its declared type
+    const onResponse = (response: unknown) => {
+      // Clear timeout since we got a response
+      clearTimeout(timeout);
 
-socket.on('error', (error) => {
-  console.error('[SOCKET] Socket error:', error);
-});
+      const isValid = ackResponseValidators[event];
+      if (!isValid(response)) {
+        reportProtocolError(event, response, 'Invalid acknowledgement');
+        reject(new Error(`Invalid acknowledgement for ${event}`));
+        return;
+      }
+      resolve(response);
+    };
+    target.emit(event, ...([payload, onResponse] as Parameters<ClientToServerEvents[E]>));
+  });
+}
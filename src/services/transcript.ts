@@ -0,0 +1,157 @@
+/**
+ * transcript.ts
+ *
+ * Pure reducers for the transcript: one TranscriptSegment per sequenceId,
+ * moving from pending (audio sent) through interim (streaming results) to
+ * final, plus the user's corrections.
+ */
+import type { TranscriptAudioRef, TranscriptSegment } from '../types';
+
+export type Transcript = Record<number, TranscriptSegment>;
+
+function update(
+  transcript: Transcript,
+  sequenceId: number,
+  changes: (segment: TranscriptSegment) => Partial<TranscriptSegment>,
+  now = Date.now()
+): Transcript {
+  const segment = transcript[sequenceId] ?? {
+    sequenceId,
+    status: 'pending',
+    text: '',
+    capturedAt: now,
+    updatedAt: now,
+  };
+  return { ...transcript, [sequenceId]: { ...segment, ...changes(segment), updatedAt: now } };
+}
+
+/**
+ * Registers the audio for a segment, creating it as pending if needed.
+ */
+export function trackSegment(
+  transcript: Transcript,
+  sequenceId: number,
+  capturedAt: number,
+  audio: TranscriptAudioRef
+): Transcript {
+  return update(transcript, sequenceId, (segment) => ({
+    capturedAt: transcript[sequenceId] ? segment.capturedAt : capturedAt,
+    audio: { ...segment.audio, ...audio },
+  }));
+}
+
+/**
+ * Links a segment to its audio in the segment audio store.
+ */
+export function attachSegmentAudio(
+  transcript: Transcript,
+  sequenceId: number,
+  segmentId: string
+): Transcript {
+  const segment = transcript[sequenceId];
+  if (!segment?.audio) return transcript;
+  return update(transcript, sequenceId, () => ({ audio: { ...segment.audio!, segmentId } }));
+}
+
+/**
+ * Adds a typed statement; it needs no transcription.
+ */
+export function addTypedSegment(
+  transcript: Transcript,
+  sequenceId: number,
+  text: string,
+  now = Date.now()
+): Transcript {
+  return update(
+    transcript,
+    sequenceId,
+    () => ({ source: 'text', status: 'final', text, capturedAt: now, finalizedAt: now }),
+    now
+  );
+}
+
+export function applyInterim(
+  transcript: Transcript,
+  sequenceId: number,
+  text: string,
+  confidence?: number
+): Transcript {
+  // A late interim result never overwrites the final text
+  if (transcript[sequenceId]?.status === 'final') return transcript;
+  return update(transcript, sequenceId, () => ({ status: 'interim', text, confidence }));
+}
+
+export function applyFinal(
+  transcript: Transcript,
+  sequenceId: number,
+  text: string,
+  confidence?: number,
+  now = Date.now()
+): Transcript {
+  return update(
+    transcript,
+    sequenceId,
+    () => ({ status: 'final', text, confidence, finalizedAt: now }),
+    now
+  );
+}
+
+export function markFailed(transcript: Transcript, sequenceId: number): Transcript {
+  if (transcript[sequenceId]?.status === 'final') return transcript;
+  return update(transcript, sequenceId, () => ({ status: 'failed' }));
+}
+
+export function removeSegment(transcript: Transcript, sequenceId: number): Transcript {
+  if (!(sequenceId in transcript)) return transcript;
+  const next = { ...transcript };
+  delete next[sequenceId];
+  return next;
+}
+
+export function applyCorrection(
+  transcript: Transcript,
+  sequenceId: number,
+  text: string
+): Transcript {
+  if (!transcript[sequenceId]) return transcript;
+  return update(transcript, sequenceId, (segment) => ({
+    originalText: segment.originalText ?? segment.text,
+    text,
+  }));
+}
+
+export function transcriptFromSegments(segments: TranscriptSegment[]): Transcript {
+  return Object.fromEntries(segments.map((segment) => [segment.sequenceId, segment]));
+}
+
+export function orderedSegments(transcript: Transcript): TranscriptSegment[] {
+  return Object.values(transcript).sort((a, b) => a.sequenceId - b.sequenceId);
+}
+
+/**
+ * Describes an edit as "misheard → intended" pairs. Words shared at the
+ * start and end are dropped, so fixing one word in a sentence yields just
+ * that word.
+ */
+export function describeCorrections(original: string, corrected: string): string[] {
+  const before = original.trim().split(/\s+/).filter(Boolean);
+  const after = corrected.trim().split(/\s+/).filter(Boolean);
+
+  let start = 0;
+  while (start < before.length && start < after.length && before[start] === after[start]) {
+    start++;
+  }
+  let end = 0;
+  while (
+    end < before.length - start &&
+    end < after.length - start &&
+    before[before.length - 1 - end] === after[after.length - 1 - end]
+  ) {
+    end++;
+  }
+
+  const misheard = before.slice(start, before.length - end).join(' ');
+  const intended = after.slice(start, after.length - end).join(' ');
+  if (!misheard && !intended) return [];
+  return [`${misheard || '∅'} → ${intended || '∅'}`];
+}
@@ -0,0 +1,522 @@
+/**
+ * transcriptionQueue.ts
+ *
+ * The upload side of the pipeline: encoded chunks are persisted, sent one at
+ * a time with retries and backoff, and dead-lettered when they run out of
+ * attempts. Transcriptions are released into the transcript in sequenceId
+ * order, whichever way they arrive (ack, event or stream).
+ */
+import { computeBackoffDelay, DEFAULT_RETRY_POLICY, type RetryPolicy } from './retryPolicy';
+import {
+  addTypedSegment,
+  applyCorrection,
+  applyFinal,
+  applyInterim,
+  attachSegmentAudio,
+  markFailed,
+  removeSegment,
+  trackSegment,
+  transcriptFromSegments,
+  type Transcript,
+} from './transcript';
+import type { TypedEmitter } from './typedEvents';
+import type { VADMetricsCollector } from './vadMetrics';
+import type {
+  EngineStorage,
+  EngineTransport,
+  VoiceExpenseEngineEvents,
+} from './voiceExpenseEngine';
+import type {
+  AudioChunkMetadata,
+  ChunkState,
+  ChunkStatus,
+  QueuedAudioChunk,
+  TranscriptAudioRef,
+  TranscriptSegment,
+} from '../types';
+
+// Completed chunks shown in the queue list before they drop off
+const MAX_VISIBLE_DONE_CHUNKS = 5;
+
+export class TranscriptionQueue {
+  private transcript: Transcript = {};
+  private chunkStates: Record<number, ChunkState> = {};
+  private pendingCount = 0;
+  private queue: QueuedAudioChunk[] = [];
+  private isProcessing = false;
+  private deadLetters = new Map<number, QueuedAudioChunk>();
+  private wakeQueue: (() => void) | null = null;
+  private sequenceCounter = 0;
+  private pendingTranscriptions = new Map<number, AudioChunkMetadata>();
+  private nextExpectedSequence = 0;
+  // Final transcriptions can arrive both as an ack and as an event
+  private delivered = new Set<number>();
+  // Transcribed chunks that storage failed to drop; never sent again
+  private unacknowledged = new Set<number>();
+
+  retryPolicy: RetryPolicy = DEFAULT_RETRY_POLICY;
+
+  constructor(
+    private events: TypedEmitter<VoiceExpenseEngineEvents>,
+    private metrics: VADMetricsCollector,
+    private transport: EngineTransport,
+    private storage: EngineStorage
+  ) {}
+
+  getTranscript(): Transcript {
+    return this.transcript;
+  }
+
+  getChunks(): ChunkState[] {
+    return Object.values(this.chunkStates).sort((a, b) => a.sequenceId - b.sequenceId);
+  }
+
+  getPendingCount(): number {
+    return this.pendingCount;
+  }
+
+  // The sequenceId the next segment will take
+  get nextSequenceId(): number {
+    return this.sequenceCounter;
+  }
+
+  allocateSequenceId(): number {
+    return this.sequenceCounter++;
+  }
+
+  private updateTranscript(reducer: (transcript: Transcript) => Transcript) {
+    this.transcript = reducer(this.transcript);
+    this.events.emit('transcript', this.transcript);
+  }
+
+  /**
+   * Shows a session's transcript. Its final segments count as delivered, so
+   * a late duplicate can't overwrite a correction.
+   */
+  load(segments: TranscriptSegment[]) {
+    this.delivered = new Set(
+      segments.filter((segment) => segment.status === 'final').map((s) => s.sequenceId)
+    );
+    this.updateTranscript(() => transcriptFromSegments(segments));
+  }
+
+  trackSegment(sequenceId: number, capturedAt: number, audio: TranscriptAudioRef) {
+    this.updateTranscript((prev) => trackSegment(prev, sequenceId, capturedAt, audio));
+  }
+
+  attachAudio(sequenceId: number, segmentId: string) {
+    this.updateTranscript((prev) => attachSegmentAudio(prev, sequenceId, segmentId));
+    this.events.emit('segmentAudio', { sequenceId, segmentId });
+  }
+
+  // Streams get interim results while the speaker is talking
+  applyInterim(sequenceId: number, text: string, confidence?: number) {
+    if (this.delivered.has(sequenceId)) return;
+    this.updateTranscript((prev) => applyInterim(prev, sequenceId, text, confidence));
+  }
+
+  // A typed statement needs no transcription; it is delivered in order right away
+  addTyped(sequenceId: number, text: string, timestamp: number) {
+    this.updateTranscript((prev) => addTypedSegment(prev, sequenceId, text, timestamp));
+    this.deliver(sequenceId, text, undefined, timestamp);
+  }
+
+  correct(sequenceId: number, text: string) {
+    this.updateTranscript((prev) => applyCorrection(prev, sequenceId, text));
+  }
+
+  private updateChunkState(chunk: QueuedAudioChunk, status: ChunkStatus) {
+    chunk.status = status;
+    const next = {
+      ...this.chunkStates,
+      [chunk.sequenceId]: {
+        sequenceId: chunk.sequenceId,
+        status,
+        attempts: chunk.attempts ?? 0,
+        lastError: chunk.lastError,
+        updatedAt: Date.now(),
+      },
+    };
+    // Only keep the most recent completed chunks around for display
+    const done = Object.values(next)
+      .filter((c) => c.status === 'done')
+      .sort((a, b) => b.sequenceId - a.sequenceId);
+    done.slice(MAX_VISIBLE_DONE_CHUNKS).forEach((c) => delete next[c.sequenceId]);
+    this.chunkStates = next;
+    this.events.emit('chunks', this.getChunks());
+  }
+
+  private setPendingCount(count: number) {
+    this.pendingCount = count;
+    this.events.emit('pendingChunks', count);
+  }
+
+  private async refreshPendingCount() {
+    try {
+      // Chunks only waiting to be dropped from storage aren't pending
+      this.setPendingCount(
+        Math.max(0, (await this.storage.countPendingChunks()) - this.unacknowledged.size)
+      );
+    } catch (err) {
+      console.error('[QUEUE] Error counting pending chunks:', err);
+    }
+  }
+
+  /**
+   * Persists a chunk and queues it for upload. `cycleId` links it to the
+   * VAD cycle it was recorded in.
+   */
+  async enqueue(chunk: QueuedAudioChunk, cycleId: number | null) {
+    // Persist before sending so the chunk survives reloads and disconnects
+    await this.storage.persistChunk(chunk);
+    this.queue.push(chunk);
+    this.updateChunkState(chunk, 'queued');
+    if (cycleId !== null) this.metrics.markQueued(cycleId, chunk.sequenceId);
+    this.refreshPendingCount();
+
+    this.process();
+  }
+
+  // Drop a transcribed chunk from storage. A failure is remembered and
+  // retried on the next replay, so the chunk isn't sent twice.
+  private async acknowledge(sequenceId: number) {
+    try {
+      await this.storage.acknowledgeChunk(sequenceId);
+      this.unacknowledged.delete(sequenceId);
+    } catch (err) {
+      console.error('[QUEUE] Error acknowledging chunk:', sequenceId, err);
+      this.unacknowledged.add(sequenceId);
+    }
+  }
+
+  // Load unacknowledged chunks from storage into the in-memory queue
+  private async restorePendingChunks() {
+    await Promise.all([...this.unacknowledged].map((id) => this.acknowledge(id)));
+    const pending = (await this.storage.listPendingChunks()).filter(
+      (c) => !this.unacknowledged.has(c.sequenceId)
+    );
+    const queued = new Set(this.queue.map((c) => c.sequenceId));
+    const restored = pending.filter(
+      (c) => !queued.has(c.sequenceId) && !this.deadLetters.has(c.sequenceId)
+    );
+
+    restored.forEach((chunk) => {
+      if (chunk.status === 'failed') {
+        this.deadLetters.set(chunk.sequenceId, chunk);
+        this.updateChunkState(chunk, 'failed');
+      } else {
+        chunk.nextAttemptAt = undefined;
+        this.queue.push(chunk);
+        this.updateChunkState(chunk, 'queued');
+      }
+    });
+
+    if (restored.length > 0) {
+      console.log('[QUEUE] Restored pending chunks:', restored.length);
+      this.queue.sort((a, b) => a.sequenceId - b.sequenceId);
+    }
+
+    this.setPendingCount(pending.length);
+    return pending;
+  }
+
+  /**
+   * Replays chunks left over from a previous page load or a dropped
+   * connection.
+   */
+  async replay() {
+    try {
+      await this.restorePendingChunks();
+      // Everything below the oldest unacknowledged chunk has already been
+      // delivered, so ordering can resume from there
+      const oldest = this.queue[0];
+      if (oldest && this.pendingTranscriptions.size === 0) {
+        this.nextExpectedSequence = Math.max(this.nextExpectedSequence, oldest.sequenceId);
+      }
+      this.process();
+    } catch (err) {
+      console.error('[QUEUE] Error replaying pending chunks:', err);
+    }
+  }
+
+  /**
+   * Starts numbering for a recording. A resumed session continues from
+   * `resumeFrom`, and any chunks still waiting to be acknowledged keep theirs.
+   * Ordering is reset here rather than on stop, so acknowledgements that
+   * arrive after a stop are still released.
+   */
+  async resetSequencing(resumeFrom: number | null) {
+    const firstSequence =
+      resumeFrom === null
+        ? 0
+        : Math.max(resumeFrom, ...Object.keys(this.transcript).map((id) => Number(id) + 1));
+    const pending = await this.restorePendingChunks();
+    this.sequenceCounter = pending.length
+      ? Math.max(firstSequence, pending[pending.length - 1].sequenceId + 1)
+      : firstSequence;
+    // With nothing left to acknowledge, what is held back waits on a gap that
+    // will never fill, and its numbers are about to be reused
+    if (!pending.length) this.pendingTranscriptions.clear();
+    this.nextExpectedSequence = pending.length ? pending[0].sequenceId : firstSequence;
+  }
+
+  // Send a single chunk and wait for the server's acknowledgement
+  private async sendChunk(chunk: QueuedAudioChunk, timeoutMs: number) {
+    console.log('[QUEUE] Setting up server communication for chunk:', chunk.sequenceId);
+
+    const response = await this.transport.request(
+      'audioDataPartial',
+      {
+        audio: chunk.audio,
+        context: chunk.context,
+        sequenceId: chunk.sequenceId,
+        timestamp: chunk.timestamp,
+        semanticUnit: chunk.semanticUnit,
+        segment: chunk.segment,
+        encoding: chunk.encoding,
+      },
+      timeoutMs
+    );
+
+    if (!response.success) {
+      // Reject if server returned an error
+      console.error('[QUEUE] Server returned error for chunk:', chunk.sequenceId, response.error);
+      throw new Error(response.error || 'Unknown error occurred');
+    }
+    return response;
+  }
+
+  // Move a chunk that ran out of retries to the dead-letter list
+  private async deadLetterChunk(chunk: QueuedAudioChunk) {
+    this.queue = this.queue.filter((c) => c.sequenceId !== chunk.sequenceId);
+    this.deadLetters.set(chunk.sequenceId, chunk);
+    this.updateChunkState(chunk, 'failed');
+    try {
+      await this.storage.persistChunk(chunk);
+    } catch (err) {
+      // It stays dead-lettered for this page load either way
+      console.error('[QUEUE] Error persisting failed chunk:', chunk.sequenceId, err);
+    }
+
+    // Don't hold back later transcriptions while this chunk waits for the user
+    this.skipTranscription(chunk);
+    this.updateTranscript((prev) => markFailed(prev, chunk.sequenceId));
+    this.events.emit(
+      'error',
+      `Audio chunk #${chunk.sequenceId} failed after ${chunk.attempts} attempts: ${chunk.lastError}`
+    );
+  }
+
+  // Process audio chunks from the queue and send them to the server for transcription
+  async process() {
+    console.log('[DEBUG] ProcessQueue called:', {
+      isProcessing: this.isProcessing,
+      queueLength: this.queue.length,
+    });
+
+    // Skip if already processing or queue is empty
+    if (this.isProcessing || this.queue.length === 0) {
+      // A new chunk shouldn't wait out another chunk's backoff
+      this.wakeQueue?.();
+      console.log(
+        '[QUEUE] Skipping - isProcessing:',
+        this.isProcessing,
+        'queueLength:',
+        this.queue.length
+      );
+      return;
+    }
+
+    if (!this.transport.isConnected()) {
+      console.log('[QUEUE] Socket offline, chunks will be replayed on reconnect');
+      return;
+    }
+
+    // Set processing flag to prevent concurrent processing
+    this.isProcessing = true;
+    console.log('[QUEUE] Starting queue processing');
+
+    try {
+      // Process chunks while there are items in the queue
+      while (this.queue.length > 0 && this.transport.isConnected()) {
+        const now = Date.now();
+
+        // Chunks waiting out a backoff don't block the ones behind them
+        const chunk = this.queue.find((c) => (c.nextAttemptAt ?? 0) <= now);
+        if (!chunk) {
+          const nextAttemptAt = Math.min(...this.queue.map((c) => c.nextAttemptAt ?? 0));
+          await new Promise<void>((resolve) => {
+            const timer = setTimeout(resolve, Math.max(0, nextAttemptAt - now));
+            this.wakeQueue = () => {
+              clearTimeout(timer);
+              resolve();
+            };
+          });
+          this.wakeQueue = null;
+          continue;
+        }
+
+        await this.processChunk(chunk);
+      }
+    } finally {
+      // Reset processing flag when done, whatever went wrong
+      this.isProcessing = false;
+      console.log('[QUEUE] Queue processing complete, processing flag reset');
+    }
+  }
+
+  private async processChunk(chunk: QueuedAudioChunk) {
+    const policy = this.retryPolicy;
+    console.log('[QUEUE] Processing chunk with sequenceId:', chunk.sequenceId);
+    this.updateChunkState(chunk, 'sending');
+
+    let response;
+    try {
+      response = await this.sendChunk(chunk, policy.timeoutMs);
+    } catch (err) {
+      console.error('[QUEUE] Error processing chunk:', chunk.sequenceId, err);
+
+      chunk.attempts = (chunk.attempts ?? 0) + 1;
+      chunk.lastError = err instanceof Error ? err.message : String(err);
+
+      if (chunk.attempts > policy.maxRetries) {
+        console.warn('[QUEUE] Giving up on chunk:', chunk.sequenceId);
+        await this.deadLetterChunk(chunk);
+        return;
+      }
+
+      const delay = computeBackoffDelay(chunk.attempts, policy);
+      console.warn(`[QUEUE] Retrying chunk ${chunk.sequenceId} in ${delay}ms`);
+      chunk.nextAttemptAt = Date.now() + delay;
+      this.updateChunkState(chunk, 'retrying');
+      try {
+        await this.storage.persistChunk(chunk);
+      } catch (persistErr) {
+        // The retry still happens; only the attempt count may be lost on reload
+        console.error('[QUEUE] Error persisting retrying chunk:', chunk.sequenceId, persistErr);
+      }
+      return;
+    }
+
+    console.log('[QUEUE] Successfully processed chunk:', chunk.sequenceId);
+    this.deliver(chunk.sequenceId, response.transcription, response.confidence, chunk.timestamp);
+    console.log(
+      '[QUEUE] Added to pending transcriptions, current size:',
+      this.pendingTranscriptions.size
+    );
+
+    // The server has it now: a storage failure from here on must not resend it
+    this.queue = this.queue.filter((c) => c.sequenceId !== chunk.sequenceId);
+    this.updateChunkState(chunk, 'done');
+    await this.acknowledge(chunk.sequenceId);
+    this.refreshPendingCount();
+    console.log('[QUEUE] Removed processed chunk, remaining queue size:', this.queue.length);
+  }
+
+  async retry(sequenceId: number) {
+    const chunk = this.deadLetters.get(sequenceId);
+    if (!chunk) return;
+
+    this.deadLetters.delete(sequenceId);
+    chunk.attempts = 0;
+    chunk.lastError = undefined;
+    chunk.nextAttemptAt = undefined;
+    this.queue = [...this.queue, chunk].sort((a, b) => a.sequenceId - b.sequenceId);
+    this.updateChunkState(chunk, 'queued');
+
+    try {
+      await this.storage.persistChunk(chunk);
+    } catch (err) {
+      console.error('[QUEUE] Error persisting retried chunk:', err);
+    }
+    this.process();
+  }
+
+  async discard(sequenceId: number) {
+    const chunk = this.deadLetters.get(sequenceId);
+    if (!chunk) return;
+
+    this.deadLetters.delete(sequenceId);
+    const next = { ...this.chunkStates };
+    delete next[sequenceId];
+    this.chunkStates = next;
+    this.events.emit('chunks', this.getChunks());
+    this.updateTranscript((prev) => removeSegment(prev, sequenceId));
+
+    try {
+      await this.storage.discardChunk(sequenceId);
+      this.refreshPendingCount();
+    } catch (err) {
+      console.error('[QUEUE] Error discarding chunk:', err);
+      this.events.emit('error', err instanceof Error ? err.message : String(err));
+    }
+  }
+
+  // Let ordering move past a chunk that has no transcription (yet)
+  private skipTranscription(chunk: QueuedAudioChunk) {
+    if (chunk.sequenceId < this.nextExpectedSequence) return;
+    this.pendingTranscriptions.set(chunk.sequenceId, {
+      sequenceId: chunk.sequenceId,
+      timestamp: chunk.timestamp,
+      isProcessed: false,
+    });
+    this.processOrderedTranscriptions();
+  }
+
+  /**
+   * Stores a final transcription and releases whatever is now in order.
+   */
+  deliver(
+    sequenceId: number,
+    transcription: string | undefined,
+    confidence?: number,
+    timestamp = Date.now()
+  ) {
+    this.metrics.markTranscribed(sequenceId);
+    this.pendingTranscriptions.set(sequenceId, {
+      sequenceId,
+      timestamp,
+      isProcessed: true,
+      transcription,
+      confidence,
+    });
+    this.processOrderedTranscriptions();
+  }
+
+  private appendTranscription(nextChunk: AudioChunkMetadata) {
+    // Delivering twice would overwrite a correction the user already made
+    if (this.delivered.has(nextChunk.sequenceId)) return;
+    if (!nextChunk.isProcessed) return;
+    this.delivered.add(nextChunk.sequenceId);
+
+    // The final text replaces any interim text shown for this segment
+    this.updateTranscript((prev) =>
+      applyFinal(prev, nextChunk.sequenceId, nextChunk.transcription ?? '', nextChunk.confidence)
+    );
+    if (nextChunk.transcription) {
+      this.events.emit('transcription', {
+        sequenceId: nextChunk.sequenceId,
+        transcription: nextChunk.transcription,
+      });
+    }
+  }
+
+  private processOrderedTranscriptions() {
+    const pending = this.pendingTranscriptions;
+
+    // Late arrivals (e.g. a dead-lettered chunk that was retried) are
+    // appended as soon as they come in
+    pending.forEach((lateChunk, sequenceId) => {
+      if (sequenceId < this.nextExpectedSequence) {
+        this.appendTranscription(lateChunk);
+        pending.delete(sequenceId);
+      }
+    });
+
+    while (pending.has(this.nextExpectedSequence)) {
+      this.appendTranscription(pending.get(this.nextExpectedSequence)!);
+      pending.delete(this.nextExpectedSequence);
+      this.nextExpectedSequence++;
+    }
+  }
+}
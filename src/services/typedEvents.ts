@@ -0,0 +1,31 @@
+/**
+ * typedEvents.ts
+ *
+ * A small event emitter keyed by an event map, so listeners get the payload
+ * type of the event they subscribe to.
+ */
+
+type Listener<T> = (data: T) => void;
+
+export class TypedEmitter<Events> {
+  private listeners = new Map<keyof Events, Set<Listener<never>>>();
+
+  /**
+   * Calls the listener on every `event`. Returns an unsubscribe function.
+   */
+  on<E extends keyof Events>(event: E, listener: Listener<Events[E]>): () => void {
+    let eventListeners = this.listeners.get(event);
+    if (!eventListeners) {
+      eventListeners = new Set();
+      this.listeners.set(event, eventListeners);
+    }
+    eventListeners.add(listener);
+    return () => {
+      eventListeners.delete(listener);
+    };
+  }
+
+  emit<E extends keyof Events>(event: E, data: Events[E]) {
+    this.listeners.get(event)?.forEach((listener) => (listener as Listener<Events[E]>)(data));
+  }
+}
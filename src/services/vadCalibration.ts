@@ -0,0 +1,157 @@
+/**
+ * vadCalibration.ts
+ *
+ * Measures background noise and a sample utterance the same way the
+ * voice-activity-detection library does (average analyser magnitude over a
+ * frequency band, 0-1), then suggests VAD tuning values from the two.
+ */
+import type { VADTuning } from '../types';
+
+export type FrequencyBand = [minHz: number, maxHz: number];
+
+// Candidate capture bands, all within the range of the human voice
+export const CALIBRATION_BANDS: FrequencyBand[] = [
+  [85, 255],
+  [100, 400],
+  [150, 600],
+  [250, 1000],
+];
+
+export interface LevelStats {
+  band: FrequencyBand;
+  min: number;
+  mean: number;
+  p90: number;
+  max: number;
+}
+
+export interface CalibrationSuggestion {
+  tuning: VADTuning;
+  band: FrequencyBand;
+  // Gap between typical speech and loud background; below ~0.05 VAD will struggle
+  margin: number;
+}
+
+const FFT_SIZE = 1024;
+const SAMPLE_INTERVAL_MS = 20;
+
+function frequencyToIndex(frequency: number, sampleRate: number, binCount: number) {
+  const nyquist = sampleRate / 2;
+  const index = Math.round((frequency / nyquist) * binCount);
+  return Math.max(0, Math.min(binCount, index));
+}
+
+function bandAverage(frequencies: Uint8Array, band: FrequencyBand, sampleRate: number) {
+  const start = frequencyToIndex(band[0], sampleRate, frequencies.length);
+  const end = frequencyToIndex(band[1], sampleRate, frequencies.length);
+  let sum = 0;
+  for (let i = start; i < end; i++) sum += frequencies[i] / 255;
+  return end > start ? sum / (end - start) : 0;
+}
+
+function summarize(band: FrequencyBand, readings: number[]): LevelStats {
+  if (readings.length === 0) return { band, min: 0, mean: 0, p90: 0, max: 0 };
+  const sorted = [...readings].sort((a, b) => a - b);
+  return {
+    band,
+    min: sorted[0],
+    mean: sorted.reduce((a, b) => a + b, 0) / sorted.length,
+    p90: sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * 0.9))],
+    max: sorted[sorted.length - 1],
+  };
+}
+
+/**
+ * Samples band levels from `stream` for `durationMs`. `onLevel` receives the
+ * live level of the default band for a progress meter.
+ */
+export async function measureLevels(
+  stream: MediaStream,
+  durationMs: number,
+  smoothingTimeConstant = 0.2,
+  onLevel?: (level: number) => void
+): Promise<LevelStats[]> {
+  const audioContext = new AudioContext();
+  if (audioContext.state === 'suspended') {
+    await audioContext.resume();
+  }
+
+  const source = audioContext.createMediaStreamSource(stream);
+  const analyser = audioContext.createAnalyser();
+  analyser.fftSize = FFT_SIZE;
+  analyser.smoothingTimeConstant = smoothingTimeConstant;
+  source.connect(analyser);
+
+  const frequencies = new Uint8Array(analyser.frequencyBinCount);
+  const readings: number[][] = CALIBRATION_BANDS.map(() => []);
+
+  try {
+    await new Promise<void>((resolve) => {
+      const startedAt = performance.now();
+      const interval = setInterval(() => {
+        analyser.getByteFrequencyData(frequencies);
+        CALIBRATION_BANDS.forEach((band, i) => {
+          readings[i].push(bandAverage(frequencies, band, audioContext.sampleRate));
+        });
+        onLevel?.(readings[0][readings[0].length - 1]);
+
+        if (performance.now() - startedAt >= durationMs) {
+          clearInterval(interval);
+          resolve();
+        }
+      }, SAMPLE_INTERVAL_MS);
+    });
+  } finally {
+    source.disconnect();
+    await audioContext.close();
+  }
+
+  return CALIBRATION_BANDS.map((band, i) => summarize(band, readings[i]));
+}
+
+function clamp(value: number, min: number, max: number) {
+  return Math.max(min, Math.min(max, value));
+}
+
+/**
+ * Suggests tuning values that put the VAD threshold between the measured
+ * noise and speech levels, using the band where speech stands out most.
+ */
+export function suggestVADTuning(
+  noise: LevelStats[],
+  speech: LevelStats[],
+  base: VADTuning
+): CalibrationSuggestion {
+  let best = 0;
+  noise.forEach((n, i) => {
+    const margin = speech[i].mean - n.p90;
+    if (margin > speech[best].mean - noise[best].p90) best = i;
+  });
+
+  const noiseStats = noise[best];
+  const speechStats = speech[best];
+  const margin = speechStats.mean - noiseStats.p90;
+
+  // The library's threshold is min(noise) * multiplier, clamped to [minNoise, maxNoise]
+  const threshold = clamp((noiseStats.p90 + speechStats.mean) / 2, 0.02, 0.95);
+  const minNoiseLevel = clamp(Math.min(threshold, noiseStats.p90 * 1.05), 0.01, 0.9);
+  const maxNoiseLevel = clamp(
+    Math.max(threshold, (threshold + speechStats.mean) / 2),
+    minNoiseLevel + 0.05,
+    0.95
+  );
+  const avgNoiseMultiplier = clamp(threshold / Math.max(noiseStats.min, 0.01), 1, 4);
+
+  return {
+    band: noiseStats.band,
+    margin,
+    tuning: {
+      ...base,
+      minCaptureFreq: noiseStats.band[0],
+      maxCaptureFreq: noiseStats.band[1],
+      minNoiseLevel: Number(minNoiseLevel.toFixed(3)),
+      maxNoiseLevel: Number(maxNoiseLevel.toFixed(3)),
+      avgNoiseMultiplier: Number(avgNoiseMultiplier.toFixed(2)),
+    },
+  };
+}
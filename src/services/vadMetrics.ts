@@ -0,0 +1,157 @@
+/**
+ * vadMetrics.ts
+ *
+ * Collects one VADMetrics record per voice activity cycle (voice start to
+ * voice stop), plus how long the server took to transcribe it. Used by the
+ * debug dashboard to tune VAD settings for real rooms.
+ */
+import type { VADMetrics } from '../types';
+
+// Cycles kept in memory for the dashboard and export
+const MAX_HISTORY = 200;
+
+type MetricsListener = () => void;
+
+export class VADMetricsCollector {
+  private history: VADMetrics[] = [];
+  private current: VADMetrics | null = null;
+  private nextCycleId = 0;
+  private discardedSegments = 0;
+  private lastCycleEnd: number | null = null;
+  private listeners = new Set<MetricsListener>();
+
+  // Latest amplitude reading, whether or not a cycle is active
+  currentAmplitude = 0;
+
+  subscribe(listener: MetricsListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify() {
+    this.listeners.forEach((listener) => listener());
+  }
+
+  startCycle(now = Date.now()) {
+    this.current = {
+      cycleId: this.nextCycleId++,
+      startTime: now,
+      endTime: null,
+      duration: null,
+      audioChunks: 0,
+      averageAmplitude: 0,
+      totalAmplitudeReadings: 0,
+      sumAmplitude: 0,
+      silenceDuration: this.lastCycleEnd === null ? 0 : now - this.lastCycleEnd,
+      voiceActivityRatio: 0,
+      minAmplitude: Infinity,
+      maxAmplitude: 0,
+      discarded: false,
+      discardedSegments: this.discardedSegments,
+      sequenceIds: [],
+      transcribedAt: null,
+      timeToTranscription: null,
+    };
+    this.notify();
+    return this.current.cycleId;
+  }
+
+  recordAmplitude(amplitude: number) {
+    this.currentAmplitude = amplitude;
+    const cycle = this.current;
+    if (!cycle) return;
+
+    cycle.totalAmplitudeReadings++;
+    cycle.sumAmplitude += amplitude;
+    cycle.averageAmplitude = cycle.sumAmplitude / cycle.totalAmplitudeReadings;
+    cycle.minAmplitude = Math.min(cycle.minAmplitude, amplitude);
+    cycle.maxAmplitude = Math.max(cycle.maxAmplitude, amplitude);
+  }
+
+  /**
+   * Closes the active cycle. Returns its id, or null if none was active.
+   */
+  endCycle(now = Date.now()): number | null {
+    const cycle = this.current;
+    if (!cycle) return null;
+
+    cycle.endTime = now;
+    cycle.duration = now - cycle.startTime;
+    cycle.voiceActivityRatio = cycle.duration / (cycle.duration + cycle.silenceDuration || 1);
+    if (cycle.totalAmplitudeReadings === 0) cycle.minAmplitude = 0;
+
+    this.lastCycleEnd = now;
+    this.current = null;
+    this.history = [...this.history, cycle].slice(-MAX_HISTORY);
+    this.notify();
+    return cycle.cycleId;
+  }
+
+  get currentCycleId(): number | null {
+    return this.current?.cycleId ?? null;
+  }
+
+  // Applies to the active cycle too, which can queue parts of a split utterance
+  private update(cycleId: number, changes: (cycle: VADMetrics) => Partial<VADMetrics>) {
+    if (this.current?.cycleId === cycleId) {
+      this.current = { ...this.current, ...changes(this.current) };
+    }
+    this.history = this.history.map((cycle) =>
+      cycle.cycleId === cycleId ? { ...cycle, ...changes(cycle) } : cycle
+    );
+    this.notify();
+  }
+
+  markDiscarded(cycleId: number) {
+    this.discardedSegments++;
+    this.update(cycleId, () => ({ discarded: true, discardedSegments: this.discardedSegments }));
+  }
+
+  markQueued(cycleId: number, sequenceId: number) {
+    this.update(cycleId, (cycle) => ({
+      audioChunks: cycle.audioChunks + 1,
+      sequenceIds: [...cycle.sequenceIds, sequenceId],
+    }));
+  }
+
+  markTranscribed(sequenceId: number, now = Date.now()) {
+    const cycle = this.history.find((c) => c.sequenceIds.includes(sequenceId));
+    if (!cycle || cycle.transcribedAt !== null) return;
+
+    this.update(cycle.cycleId, (c) => ({
+      transcribedAt: now,
+      timeToTranscription: c.endTime === null ? null : now - c.endTime,
+    }));
+  }
+
+  getHistory(): VADMetrics[] {
+    return this.history;
+  }
+
+  getDiscardedSegments(): number {
+    return this.discardedSegments;
+  }
+
+  reset() {
+    this.history = [];
+    this.current = null;
+    this.nextCycleId = 0;
+    this.discardedSegments = 0;
+    this.lastCycleEnd = null;
+    this.notify();
+  }
+
+  toJSON(): string {
+    return JSON.stringify(
+      {
+        exportedAt: new Date().toISOString(),
+        discardedSegments: this.discardedSegments,
+        cycles: this.history,
+      },
+      null,
+      2
+    );
+  }
+}
@@ -0,0 +1,121 @@
+/**
+ * vadProfiles.ts
+ *
+ * Named VAD tunings. Built-in profiles cover common rooms; profiles saved
+ * from the calibration wizard are kept in localStorage alongside the id of
+ * the active profile.
+ */
+import { readStoredJSON, writeStoredJSON } from './settings';
+import type { VADProfile, VADTuning } from '../types';
+
+const CUSTOM_PROFILES_KEY = 'agent-test-client:vad-profiles';
+const ACTIVE_PROFILE_KEY = 'agent-test-client:vad-active-profile';
+
+export const DEFAULT_VAD_TUNING: VADTuning = {
+  bufferLen: 1024,
+  avgNoiseMultiplier: 1.5,
+  minNoiseLevel: 0.4, // Reduced sensitivity
+  maxNoiseLevel: 0.7, // Increased range
+  minCaptureFreq: 85, // Voice frequency range
+  maxCaptureFreq: 255,
+  noiseCaptureDuration: 2000, // Longer noise analysis
+  minSpeechDuration: 150, // Shorter segments are discarded
+  maxSpeechDuration: 60000, // Longer utterances are split into parts
+  segmentOverlap: 300, // Repeated at the start of each continuation part
+  silenceDuration: 1500, // Shorter silence detection
+  smoothingTimeConstant: 0.2, // More smoothing
+  audioBuffering: { enabled: true, duration: 300 }, // Pre-roll before voice start
+};
+
+export const BUILT_IN_PROFILES: VADProfile[] = [
+  { id: 'default', name: 'Default', builtIn: true, tuning: DEFAULT_VAD_TUNING },
+  {
+    id: 'quiet-office',
+    name: 'Quiet office',
+    builtIn: true,
+    tuning: {
+      ...DEFAULT_VAD_TUNING,
+      avgNoiseMultiplier: 1.3,
+      minNoiseLevel: 0.25,
+      maxNoiseLevel: 0.55,
+      noiseCaptureDuration: 1500,
+      smoothingTimeConstant: 0.15,
+    },
+  },
+  {
+    id: 'car',
+    name: 'Car',
+    builtIn: true,
+    tuning: {
+      ...DEFAULT_VAD_TUNING,
+      // Road rumble sits low; listen a bit higher up the voice band
+      minCaptureFreq: 150,
+      maxCaptureFreq: 400,
+      avgNoiseMultiplier: 1.8,
+      minNoiseLevel: 0.45,
+      maxNoiseLevel: 0.8,
+      noiseCaptureDuration: 3000,
+    },
+  },
+  {
+    id: 'noisy-cafe',
+    name: 'Noisy café',
+    builtIn: true,
+    tuning: {
+      ...DEFAULT_VAD_TUNING,
+      avgNoiseMultiplier: 2,
+      minNoiseLevel: 0.5,
+      maxNoiseLevel: 0.85,
+      minCaptureFreq: 120,
+      maxCaptureFreq: 350,
+      noiseCaptureDuration: 3000,
+      minSpeechDuration: 300,
+      smoothingTimeConstant: 0.35,
+    },
+  },
+];
+
+export function listVADProfiles(): VADProfile[] {
+  const custom = readStoredJSON<VADProfile[]>(CUSTOM_PROFILES_KEY) ?? [];
+  // Fill in tuning keys added after a profile was saved
+  return [
+    ...BUILT_IN_PROFILES,
+    ...custom.map((p) => ({ ...p, tuning: { ...DEFAULT_VAD_TUNING, ...p.tuning } })),
+  ];
+}
+
+export function getVADProfile(id: string): VADProfile | undefined {
+  return listVADProfiles().find((p) => p.id === id);
+}
+
+export function getActiveVADProfile(): VADProfile {
+  const id = localStorage.getItem(ACTIVE_PROFILE_KEY);
+  return (id && getVADProfile(id)) || BUILT_IN_PROFILES[0];
+}
+
+export function setActiveVADProfile(id: string) {
+  localStorage.setItem(ACTIVE_PROFILE_KEY, id);
+}
+
+/**
+ * Saves a new custom profile (or replaces one with the same id).
+ */
+export function saveVADProfile(profile: VADProfile): VADProfile {
+  const custom = (readStoredJSON<VADProfile[]>(CUSTOM_PROFILES_KEY) ?? []).filter(
+    (p) => p.id !== profile.id
+  );
+  const saved = { ...profile, builtIn: false };
+  writeStoredJSON(CUSTOM_PROFILES_KEY, [...custom, saved]);
+  return saved;
+}
+
+export function deleteVADProfile(id: string) {
+  const custom = readStoredJSON<VADProfile[]>(CUSTOM_PROFILES_KEY) ?? [];
+  writeStoredJSON(
+    CUSTOM_PROFILES_KEY,
+    custom.filter((p) => p.id !== id)
+  );
+  if (localStorage.getItem(ACTIVE_PROFILE_KEY) === id) {
+    localStorage.removeItem(ACTIVE_PROFILE_KEY);
+  }
+}
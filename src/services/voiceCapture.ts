@@ -0,0 +1,909 @@
+/**
+ * voiceCapture.ts
+ *
+ * The capture side of the pipeline: microphone, capture buffer and VAD,
+ * cutting segments according to the recording mode, splitting long ones and
+ * handing them to the TranscriptionQueue (or streaming them). It also runs
+ * the recorder lifecycle, pausing and resuming around tab visibility,
+ * AudioContext suspension, reconnects and device changes.
+ */
+import VAD from 'voice-activity-detection';
+import { AudioCapture } from './audioCapture';
+import {
+  listMicrophones,
+  loadMicrophoneSettings,
+  openMicrophone,
+  saveMicrophoneSettings,
+  type MicrophoneSettings,
+} from './audioDevices';
+import {
+  encodingInfo,
+  getSegmentEncoder,
+  loadPreferredCodec,
+  resolveSessionEncoder,
+  savePreferredCodec,
+  SEGMENT_ENCODERS,
+  type SegmentEncoder,
+} from './audioEncoders';
+import { loadDSPOptions, processSegment, saveDSPOptions, type DSPOptions } from './audioMerging';
+import {
+  loadStreamingEnabled,
+  saveStreamingEnabled,
+  STREAM_FRAME_MS,
+  UploadStream,
+} from './audioStreaming';
+import type { EncoderStatsCollector } from './encoderStats';
+import {
+  IDLE,
+  isActive,
+  transition,
+  type PauseReason,
+  type RecorderEvent,
+  type RecorderState,
+} from './recorderState';
+import {
+  loadRecordingMode,
+  loadWakeWordModel,
+  saveRecordingMode,
+  saveWakeWordModel,
+  WAKE_END_SILENCE_MS,
+  WAKE_MIN_COMMAND_MS,
+  WAKE_WORD_TAKE_MS,
+  type WakeWordModel,
+} from './recordingModes';
+import { computePeaks } from './segmentAudioStore';
+import { SegmentSplitter } from './segmentSplitter';
+import type { SemanticContextTracker } from './semanticContextTracker';
+import type { SessionSettings } from './sessions';
+import type { TranscriptionQueue } from './transcriptionQueue';
+import type { TypedEmitter } from './typedEvents';
+import type { VADMetricsCollector } from './vadMetrics';
+import { getActiveVADProfile, setActiveVADProfile } from './vadProfiles';
+import type {
+  EngineStorage,
+  EngineTransport,
+  VoiceExpenseEngineEvents,
+} from './voiceExpenseEngine';
+import type {
+  AudioCodec,
+  ExtendedVADOptions,
+  QueuedAudioChunk,
+  RecordingMode,
+  SegmentContinuation,
+  VADProfile,
+} from '../types';
+
+interface VADInstance {
+  destroy: () => void;
+}
+
+export interface CaptureSettings {
+  vadProfile: VADProfile;
+  // Preferred codec; the one actually used is fixed when listening starts
+  codec: AudioCodec;
+  // Read at encode time, so changes apply to the next segment
+  dsp: DSPOptions;
+  // Chosen per session, like the encoder
+  streaming: boolean;
+  recordingMode: RecordingMode;
+  wakeWord: WakeWordModel | null;
+  microphone: MicrophoneSettings;
+}
+
+export function loadCaptureSettings(): CaptureSettings {
+  return {
+    vadProfile: getActiveVADProfile(),
+    codec: loadPreferredCodec(),
+    dsp: loadDSPOptions(),
+    streaming: loadStreamingEnabled(),
+    recordingMode: loadRecordingMode(),
+    wakeWord: loadWakeWordModel(),
+    microphone: loadMicrophoneSettings(),
+  };
+}
+
+export function saveCaptureSettings(changes: Partial<CaptureSettings>) {
+  if (changes.vadProfile) setActiveVADProfile(changes.vadProfile.id);
+  if (changes.codec) savePreferredCodec(changes.codec);
+  if (changes.dsp) saveDSPOptions(changes.dsp);
+  if (changes.streaming !== undefined) saveStreamingEnabled(changes.streaming);
+  if (changes.recordingMode) saveRecordingMode(changes.recordingMode);
+  if (changes.wakeWord !== undefined) saveWakeWordModel(changes.wakeWord);
+  if (changes.microphone) saveMicrophoneSettings(changes.microphone);
+}
+
+export class VoiceCapture {
+  private state: RecorderState = IDLE;
+  private capture: AudioCapture | null = null;
+  private vad: VADInstance | null = null;
+  private stream: MediaStream | null = null;
+  private restartVADPending = false;
+  private rebuilding = false;
+  // Fixed for the length of a listening session
+  private encoder: SegmentEncoder = SEGMENT_ENCODERS[0];
+  private streamingSession = false;
+  private uploadStream: UploadStream | null = null;
+  private voiceStartTime: number | null = null;
+  // A segment is being recorded, whatever the mode
+  private isVoiceActive = false;
+  // What the VAD itself reports, independent of the mode
+  private vadSpeaking = false;
+  private lastSpeechAt = 0;
+  // When the wake word that opened the current segment was heard
+  private wakeAt: number | null = null;
+  private commandHeard = false;
+  // Absolute capture position where the current segment (or part) begins
+  private segmentStart = 0;
+  // Splitting of utterances longer than maxSpeechDuration
+  private splitter: SegmentSplitter | null = null;
+  private splitPromise: Promise<void> | null = null;
+  private utterance: {
+    id: string;
+    index: number;
+    lastSequenceId?: number;
+    // Overlap at the start of the current part
+    overlapMs: number;
+  } | null = null;
+  private stopLifecycle: (() => void) | null = null;
+
+  constructor(
+    private events: TypedEmitter<VoiceExpenseEngineEvents>,
+    private queue: TranscriptionQueue,
+    private metrics: VADMetricsCollector,
+    private encoderStats: EncoderStatsCollector,
+    private context: SemanticContextTracker,
+    private settings: CaptureSettings,
+    private transport: EngineTransport,
+    private storage: EngineStorage
+  ) {}
+
+  getState(): RecorderState {
+    return this.state;
+  }
+
+  getSettings(): CaptureSettings {
+    return this.settings;
+  }
+
+  // The capture settings of the current (or last) listening session
+  getSessionSettings(): SessionSettings {
+    return {
+      vadProfileId: this.settings.vadProfile.id,
+      vadProfileName: this.settings.vadProfile.name,
+      codec: this.encoder.codec,
+      dsp: this.settings.dsp,
+      streaming: this.streamingSession,
+    };
+  }
+
+  private dispatch(event: RecorderEvent) {
+    const next = transition(this.state, event);
+    if (next === this.state) return;
+    this.state = next;
+    this.events.emit('state', next);
+  }
+
+  private reportError(err: unknown) {
+    this.events.emit('error', err instanceof Error ? err.message : String(err));
+  }
+
+  /**
+   * Applies changed settings. A running session picks up a new VAD
+   * profile, microphone or wake word straight away; the codec and
+   * streaming mode apply from the next start.
+   */
+  updateSettings(changes: Partial<CaptureSettings>) {
+    const previous = this.settings;
+    this.settings = { ...previous, ...changes };
+
+    if (changes.vadProfile && changes.vadProfile !== previous.vadProfile) {
+      // A profile switch is held back while the user is speaking
+      if (this.isVoiceActive) {
+        this.restartVADPending = true;
+      } else {
+        this.restartVAD();
+      }
+    }
+    if (changes.microphone && changes.microphone !== previous.microphone && isActive(this.state)) {
+      this.rebuildCapture('microphone settings changed');
+    }
+    if (changes.wakeWord !== undefined) {
+      this.capture?.setWakeWord(changes.wakeWord?.templates ?? null);
+    }
+  }
+
+  // Start the capture buffer and Voice Activity Detection (VAD) on the given stream
+  private async initializeVAD(stream: MediaStream) {
+    const capture = await AudioCapture.start(stream);
+    this.capture = capture;
+    // The upload rate is fixed for the session too, since not every encoder supports every rate
+    this.encoder = await resolveSessionEncoder(
+      this.settings.codec,
+      this.settings.dsp.targetSampleRate ?? capture.sampleRate
+    );
+    console.log('[ENCODER] Session encoder:', this.encoder.codec);
+    capture.onWake = (position) => this.handleWake(position);
+    capture.audioContext.addEventListener('statechange', () =>
+      this.handleContextStateChange(capture)
+    );
+    if (this.settings.recordingMode === 'wake-word') {
+      capture.setWakeWord(this.settings.wakeWord?.templates ?? null);
+    }
+    await this.startVAD(capture.audioContext, stream);
+  }
+
+  // Keep a segment's audio for playback and link it from the transcript
+  private keepSegmentAudio(
+    sequenceId: number,
+    samples: Float32Array,
+    sampleRate: number,
+    audio: ArrayBuffer,
+    mimeType: string
+  ) {
+    const id = crypto.randomUUID();
+    this.storage
+      .storeSegmentAudio({
+        id,
+        sequenceId,
+        audio,
+        mimeType,
+        durationMs: (samples.length / sampleRate) * 1000,
+        peaks: computePeaks(samples),
+      })
+      .then(() => this.queue.attachAudio(sequenceId, id))
+      .catch((err) => console.warn('[PLAYBACK] Could not store segment audio:', err));
+  }
+
+  // Encode captured samples and queue them; returns the chunk's sequenceId
+  private async enqueueSegment(
+    samples: Float32Array,
+    sampleRate: number,
+    cycleId: number | null,
+    segment?: SegmentContinuation,
+    sequenceId?: number
+  ) {
+    // Split parts keep their edges so the declared overlap stays exact
+    const processed = processSegment(samples, sampleRate, this.settings.dsp, !!segment);
+    const encoder = this.encoder;
+    const encodeStart = performance.now();
+    const audioBuffer = await encoder.encode(processed.samples, processed.sampleRate);
+    const encodeMs = performance.now() - encodeStart;
+    const currentSequence = sequenceId ?? this.queue.allocateSequenceId();
+    this.encoderStats.record({
+      codec: encoder.codec,
+      sequenceId: currentSequence,
+      audioMs: (processed.samples.length / processed.sampleRate) * 1000,
+      pcmBytes: processed.samples.length * 2,
+      encodedBytes: audioBuffer.byteLength,
+      encodeMs,
+    });
+
+    const chunk: QueuedAudioChunk = {
+      audio: audioBuffer,
+      context: this.context.getContext(),
+      timestamp: Date.now(),
+      sequenceId: currentSequence,
+      semanticUnit: this.context.takeClarificationReply(),
+      status: 'queued',
+      attempts: 0,
+      segment,
+      encoding: encodingInfo(encoder, processed.sampleRate),
+    };
+    this.queue.trackSegment(currentSequence, chunk.timestamp, {
+      durationMs: (processed.samples.length / processed.sampleRate) * 1000,
+      encoding: chunk.encoding,
+      streamed: false,
+    });
+    this.keepSegmentAudio(
+      currentSequence,
+      processed.samples,
+      processed.sampleRate,
+      audioBuffer,
+      chunk.encoding!.mimeType
+    );
+
+    await this.queue.enqueue(chunk, cycleId);
+    return currentSequence;
+  }
+
+  /**
+   * Cuts the current part of a long utterance at the current position. The
+   * next part starts segmentOverlap ms earlier, so words at the cut are heard
+   * whole by at least one side.
+   */
+  private async splitSegment() {
+    const utterance = this.utterance;
+    const capture = this.capture;
+    if (!utterance || !capture) return;
+
+    const index = utterance.index++;
+    const overlapMs = utterance.overlapMs;
+    const start = this.segmentStart;
+    const cut = capture.position;
+
+    utterance.overlapMs = this.settings.vadProfile.tuning.segmentOverlap;
+    this.segmentStart = cut - capture.msToSamples(utterance.overlapMs);
+    this.splitter?.start();
+    console.log('[VAD] Max segment length reached, split utterance at part', index);
+
+    utterance.lastSequenceId = await this.finishPart(
+      capture,
+      start,
+      cut,
+      this.metrics.currentCycleId,
+      {
+        utteranceId: utterance.id,
+        index,
+        isFinal: false,
+        continuesFrom: utterance.lastSequenceId,
+        overlapMs,
+      }
+    );
+  }
+
+  /**
+   * Closes the segment (or part) in [start, end): ends its upload stream in
+   * streaming mode, otherwise queues it as a chunk. A stream that fails is
+   * sent again as a regular chunk under the same sequenceId. Returns the
+   * sequenceId.
+   */
+  private async finishPart(
+    capture: AudioCapture,
+    start: number,
+    end: number,
+    cycleId: number | null,
+    segment?: SegmentContinuation
+  ) {
+    const stream = this.uploadStream;
+    this.uploadStream = null;
+    if (!stream) {
+      return this.enqueueSegment(capture.slice(start, end), capture.sampleRate, cycleId, segment);
+    }
+
+    if (cycleId !== null) this.metrics.markQueued(cycleId, stream.sequenceId);
+    this.queue.trackSegment(stream.sequenceId, Date.now(), {
+      durationMs: capture.samplesToMs(end - stream.startPosition),
+    });
+    const samples = capture.slice(stream.startPosition, end);
+    try {
+      const response = await stream.end(end, segment, this.queue.retryPolicy.timeoutMs);
+      this.queue.deliver(stream.sequenceId, response.transcription, response.confidence);
+    } catch (err) {
+      console.warn('[STREAM] Falling back to a chunk for sequenceId:', stream.sequenceId, err);
+      await this.enqueueSegment(samples, capture.sampleRate, null, segment, stream.sequenceId);
+      return stream.sequenceId;
+    }
+
+    // The frames were raw PCM, so keep a playable WAV of the same audio
+    const processed = processSegment(samples, capture.sampleRate, this.settings.dsp, !!segment);
+    const wav = getSegmentEncoder('wav');
+    this.keepSegmentAudio(
+      stream.sequenceId,
+      processed.samples,
+      processed.sampleRate,
+      await wav.encode(processed.samples, processed.sampleRate),
+      wav.mimeType
+    );
+    return stream.sequenceId;
+  }
+
+  // Streaming mode: open the part's upload stream once it can no longer be
+  // discarded as too short, then send a frame every STREAM_FRAME_MS
+  private pumpStream() {
+    const capture = this.capture;
+    const utterance = this.utterance;
+    if (!capture || !utterance) return;
+
+    const stream = this.uploadStream;
+    if (stream) {
+      if (Date.now() - stream.lastFrameAt >= STREAM_FRAME_MS) stream.sendPending();
+      return;
+    }
+
+    const elapsed = Date.now() - (this.voiceStartTime ?? Date.now());
+    if (utterance.index === 0 && elapsed < this.settings.vadProfile.tuning.minSpeechDuration)
+      return;
+    if (!this.transport.isConnected()) return;
+
+    const uploadRate = this.settings.dsp.targetSampleRate ?? capture.sampleRate;
+    const next = new UploadStream(
+      this.queue.allocateSequenceId(),
+      capture,
+      this.segmentStart,
+      uploadRate,
+      this.transport
+    );
+    const startedAt = Date.now();
+    next.start({
+      context: this.context.getContext(),
+      timestamp: startedAt,
+      semanticUnit: this.context.takeClarificationReply(),
+    });
+    this.uploadStream = next;
+    this.queue.trackSegment(next.sequenceId, startedAt, {
+      durationMs: 0,
+      encoding: { codec: 'pcm16', mimeType: 'audio/pcm', sampleRate: uploadRate, channels: 1 },
+      streamed: true,
+    });
+  }
+
+  // Audio from a little before now, so the first syllable isn't clipped
+  private preRollStart(capture: AudioCapture) {
+    const { tuning } = this.settings.vadProfile;
+    const preRollMs = tuning.audioBuffering.enabled ? tuning.audioBuffering.duration : 0;
+    return capture.preRollStart(preRollMs);
+  }
+
+  // Open a segment at `startPosition`. Every recording mode starts here.
+  private beginUtterance(capture: AudioCapture, startPosition: number) {
+    this.isVoiceActive = true;
+    this.dispatch({ type: 'voiceStart' });
+    this.voiceStartTime = Date.now();
+    this.metrics.startCycle(this.voiceStartTime);
+
+    const { tuning } = this.settings.vadProfile;
+    const preRollMs = capture.samplesToMs(capture.position - startPosition);
+    this.segmentStart = startPosition;
+    this.utterance = { id: crypto.randomUUID(), index: 0, overlapMs: 0 };
+    // A part must still be in the buffer, overlap and pre-roll included, when it is cut
+    this.splitter = new SegmentSplitter({
+      maxDurationMs: Math.min(
+        tuning.maxSpeechDuration,
+        capture.capacityMs - preRollMs - tuning.segmentOverlap
+      ),
+    });
+    this.splitter.start(this.voiceStartTime);
+  }
+
+  // Close the current segment and queue it, unless it is too short or
+  // `discard` is set. Every recording mode ends here.
+  private async endUtterance(discard = false) {
+    if (!this.isVoiceActive) return;
+
+    this.isVoiceActive = false;
+    this.dispatch({ type: 'voiceStop' });
+    const cycleId = this.metrics.endCycle();
+    this.splitter?.stop();
+
+    // Apply a profile switch that was held back while the user was speaking
+    if (this.restartVADPending) {
+      this.restartVADPending = false;
+      this.restartVAD();
+    }
+
+    const capture = this.capture;
+    if (!capture) {
+      console.warn('[VAD] No audio capture available');
+      return;
+    }
+    const end = capture.position;
+
+    try {
+      // Let a cut that is still in flight queue its part first
+      await this.splitPromise;
+
+      const duration = this.voiceStartTime ? Date.now() - this.voiceStartTime : 0;
+      const utterance = this.utterance;
+      this.utterance = null;
+      const isContinuation = !!utterance && utterance.index > 0;
+
+      // The closing part of a split utterance, or one already streaming,
+      // is kept however short it is
+      if (
+        !isContinuation &&
+        !this.uploadStream &&
+        (discard || duration < this.settings.vadProfile.tuning.minSpeechDuration)
+      ) {
+        console.log('[VAD] Chunk too short or not a command. Discarding...');
+        if (cycleId !== null) this.metrics.markDiscarded(cycleId);
+        return;
+      }
+
+      const segment: SegmentContinuation | undefined =
+        utterance && isContinuation
+          ? {
+              utteranceId: utterance.id,
+              index: utterance.index,
+              isFinal: true,
+              continuesFrom: utterance.lastSequenceId,
+              overlapMs: utterance.overlapMs,
+            }
+          : undefined;
+
+      await this.finishPart(capture, this.segmentStart, end, cycleId, segment);
+    } catch (err) {
+      console.error('[VAD] Error processing voice segment:', err);
+      this.reportError(err);
+    }
+  }
+
+  // Wake-word mode: the command starts right after the wake word, so the
+  // word itself isn't sent
+  private handleWake(position: number) {
+    const capture = this.capture;
+    if (!capture || this.settings.recordingMode !== 'wake-word' || this.isVoiceActive) return;
+
+    console.log('[WAKE] Listening for a command');
+    this.wakeAt = Date.now();
+    this.commandHeard = false;
+    this.beginUtterance(capture, position);
+  }
+
+  startPushToTalk() {
+    const capture = this.capture;
+    if (!capture || this.settings.recordingMode !== 'push-to-talk' || this.isVoiceActive) {
+      return;
+    }
+    console.log('[PTT] Recording');
+    this.beginUtterance(capture, this.preRollStart(capture));
+  }
+
+  stopPushToTalk() {
+    if (this.settings.recordingMode !== 'push-to-talk' || !this.isVoiceActive) return;
+    console.log('[PTT] Released');
+    this.endUtterance();
+  }
+
+  // Start (or restart) VAD on the current stream with the active profile.
+  // VAD always runs, for the amplitude; only VAD mode segments on its events.
+  private async startVAD(audioContext: AudioContext, stream: MediaStream) {
+    const vadOptions: ExtendedVADOptions = {
+      onVoiceStart: () => {
+        this.vadSpeaking = true;
+        console.log('[VAD] Voice started');
+        // Speech that starts after a wake word is the command
+        if (this.isVoiceActive) this.commandHeard = true;
+        if (this.settings.recordingMode !== 'vad') return;
+
+        const capture = this.capture;
+        if (!capture) {
+          console.error('[VAD] Audio capture not initialized');
+          return;
+        }
+        this.beginUtterance(capture, this.preRollStart(capture));
+      },
+
+      onVoiceStop: async () => {
+        // The library reports an initial "stop" once its noise capture ends
+        if (!this.vadSpeaking) return;
+
+        this.vadSpeaking = false;
+        this.lastSpeechAt = Date.now();
+        console.log('[VAD] Voice stopped');
+        if (this.settings.recordingMode === 'vad') await this.endUtterance();
+      },
+
+      onUpdate: (amplitude: number) => {
+        this.metrics.recordAmplitude(amplitude);
+
+        // A wake-word command ends once the speaker has gone quiet
+        const wakeAt = this.wakeAt;
+        if (this.vadSpeaking) this.lastSpeechAt = Date.now();
+        if (
+          wakeAt !== null &&
+          this.isVoiceActive &&
+          !this.vadSpeaking &&
+          Date.now() - Math.max(wakeAt, this.lastSpeechAt) > WAKE_END_SILENCE_MS
+        ) {
+          this.wakeAt = null;
+          const heard = this.commandHeard || this.lastSpeechAt - wakeAt >= WAKE_MIN_COMMAND_MS;
+          this.endUtterance(!heard);
+        }
+
+        if (this.isVoiceActive && !this.splitPromise && this.splitter?.update(amplitude)) {
+          this.splitPromise = this.splitSegment()
+            .catch((err) => {
+              console.error('[VAD] Error splitting voice segment:', err);
+              this.reportError(err);
+            })
+            .finally(() => {
+              this.splitPromise = null;
+            });
+        }
+
+        if (this.streamingSession && this.isVoiceActive) {
+          this.pumpStream();
+        }
+      },
+
+      // VAD configuration parameters from the active profile
+      ...this.settings.vadProfile.tuning,
+    };
+
+    // Initialize Voice Activity Detection with configuration
+    this.vad = await VAD(audioContext, stream, vadOptions);
+    console.log('[VAD] Voice Activity Detection initialized with options:', vadOptions);
+  }
+
+  private async restartVAD() {
+    const audioContext = this.capture?.audioContext;
+    const stream = this.stream;
+    if (!audioContext || !stream || !this.vad) return;
+
+    console.log('[VAD] Restarting with profile:', this.settings.vadProfile.name);
+    this.vad.destroy();
+    this.vad = null;
+    this.vadSpeaking = false;
+    try {
+      await this.startVAD(audioContext, stream);
+    } catch (err) {
+      console.error('[VAD] Error restarting VAD:', err);
+      this.reportError(err);
+    }
+  }
+
+  /**
+   * Opens the microphone and starts listening. `resumeFrom` continues a
+   * session's sequenceIds; null starts from scratch. Resolves to false if
+   * listening could not start.
+   */
+  async start(resumeFrom: number | null): Promise<boolean> {
+    console.log('[CLIENT] Start Listening... invoked');
+    this.dispatch({ type: 'start' });
+
+    try {
+      // Clean up any existing resources first
+      this.cleanup();
+
+      // A connection that gave up won't come back by itself
+      const connection = this.transport.getConnectionStatus();
+      if (connection.state === 'error' || connection.state === 'disconnected') {
+        throw new Error(`Socket not connected: ${connection.error ?? connection.state}`);
+      }
+
+      await this.queue.resetSequencing(resumeFrom);
+
+      const stream = await openMicrophone(this.settings.microphone);
+      this.stream = stream;
+      this.watchTrack(stream);
+      this.streamingSession = this.settings.streaming;
+      await this.initializeVAD(stream);
+
+      // Without a connection, segments are queued until it comes back
+      this.dispatch({ type: 'ready', connected: this.transport.isConnected() });
+      if (this.capture?.audioContext.state !== 'running') {
+        this.dispatch({ type: 'pause', reason: 'suspended' });
+      }
+      this.stopLifecycle = this.watchLifecycle();
+      this.events.emit('error', null);
+      return true;
+    } catch (err) {
+      this.reportError(err);
+      this.cleanup();
+      this.dispatch({ type: 'fail', message: err instanceof Error ? err.message : String(err) });
+      return false;
+    }
+  }
+
+  stop() {
+    console.log('[CLIENT] STOP Listening invoked');
+    this.dispatch({ type: 'stop' });
+
+    // An utterance still in progress is dropped along with the capture
+    if (this.capture) {
+      this.transport.emit('audioComplete');
+    }
+    this.cleanup();
+  }
+
+  // Ends the session, keeping the reason on screen
+  private fail(err: unknown) {
+    this.reportError(err);
+    this.stop();
+    this.dispatch({ type: 'fail', message: err instanceof Error ? err.message : String(err) });
+  }
+
+  // Tear down the VAD, capture graph and microphone. The queue and the
+  // sequence numbering are left alone.
+  private releaseCapture() {
+    if (this.vad) {
+      this.vad.destroy();
+      this.vad = null;
+    }
+
+    if (this.capture) {
+      this.capture.close().catch((err) => this.reportError(err));
+      this.capture = null;
+    }
+
+    if (this.stream) {
+      this.stream.getTracks().forEach((track) => track.stop());
+      this.stream = null;
+    }
+    this.vadSpeaking = false;
+  }
+
+  private cleanup() {
+    try {
+      this.stopLifecycle?.();
+      this.stopLifecycle = null;
+      this.releaseCapture();
+      this.isVoiceActive = false;
+      this.wakeAt = null;
+      this.utterance = null;
+      this.uploadStream = null;
+      this.splitter?.stop();
+      this.restartVADPending = false;
+    } catch (err) {
+      this.reportError(err);
+    }
+  }
+
+  // An unplugged microphone ends its track; stop() from releaseCapture doesn't fire this
+  private watchTrack(stream: MediaStream) {
+    stream.getAudioTracks()[0]?.addEventListener('ended', () => {
+      this.rebuildCapture('microphone disconnected');
+    });
+  }
+
+  /**
+   * Reopens the microphone and rebuilds the capture graph, e.g. after the
+   * device was unplugged or another one was picked. A segment in progress
+   * is queued first; queued chunks and the sequenceId carry on.
+   */
+  private async rebuildCapture(reason: string) {
+    if (this.rebuilding || !this.stream) return;
+    this.rebuilding = true;
+    console.log('[DEVICES] Rebuilding capture:', reason);
+
+    try {
+      // The VAD is rebuilt below anyway
+      this.restartVADPending = false;
+      this.wakeAt = null;
+      await this.endUtterance();
+
+      this.releaseCapture();
+      const stream = await openMicrophone(this.settings.microphone);
+      this.stream = stream;
+      this.watchTrack(stream);
+      await this.initializeVAD(stream);
+      if (this.state.status === 'paused') {
+        await this.capture?.audioContext.suspend();
+      }
+    } catch (err) {
+      console.error('[DEVICES] Error rebuilding capture:', err);
+      this.fail(err);
+    } finally {
+      this.rebuilding = false;
+    }
+  }
+
+  /**
+   * Queues the segment in progress and suspends the AudioContext. Nothing is
+   * captured until resume.
+   */
+  private async pause(reason: PauseReason) {
+    console.log('[LIFECYCLE] Pausing capture:', reason);
+    this.dispatch({ type: 'pause', reason });
+    this.wakeAt = null;
+    await this.endUtterance();
+    this.vadSpeaking = false;
+
+    const context = this.capture?.audioContext;
+    try {
+      if (context?.state === 'running') await context.suspend();
+    } catch (err) {
+      console.warn('[LIFECYCLE] Could not suspend audio:', err);
+    }
+  }
+
+  // Undo a pause for `reason`. Browsers only allow resuming audio after a
+  // user gesture, so a failed attempt waits for resumeAudio().
+  private async resume(reason: PauseReason) {
+    const { status, pauseReason } = this.state;
+    const context = this.capture?.audioContext;
+    if (status !== 'paused' || pauseReason !== reason || !context) return;
+
+    try {
+      if (context.state !== 'running') await context.resume();
+    } catch (err) {
+      console.warn('[LIFECYCLE] Could not resume audio:', err);
+    }
+    if (context.state !== 'running') {
+      this.dispatch({ type: 'pause', reason: 'suspended' });
+      return;
+    }
+
+    console.log('[LIFECYCLE] Resuming capture');
+    // The VAD may still think someone was speaking when audio stopped
+    this.restartVAD();
+    this.dispatch({ type: 'resume', reason, connected: this.transport.isConnected() });
+  }
+
+  /**
+   * Resumes audio the browser suspended. Call it from a user gesture.
+   */
+  resumeAudio() {
+    return this.resume('suspended');
+  }
+
+  // The browser can suspend audio on its own, e.g. for a call on mobile. A
+  // hidden tab is handled by the visibility listener instead.
+  private handleContextStateChange(capture: AudioCapture) {
+    if (capture !== this.capture || document.hidden) return;
+    const { state } = capture.audioContext;
+    console.log('[LIFECYCLE] AudioContext state:', state);
+    if (state === 'running') {
+      this.resume('suspended');
+    } else if (state !== 'closed' && this.state.status !== 'paused') {
+      this.pause('suspended');
+    }
+  }
+
+  /**
+   * Follows the tab, the socket and the audio devices while listening.
+   * Returns a function that stops watching.
+   */
+  private watchLifecycle(): () => void {
+    // Pause while the tab is in the background
+    const onVisibilityChange = () => {
+      if (document.hidden) {
+        this.pause('hidden');
+      } else {
+        this.resume('hidden');
+      }
+    };
+
+    // Follow the selected microphone as devices come and go
+    const onDeviceChange = async () => {
+      const track = this.stream?.getAudioTracks()[0];
+      if (!track) return;
+      try {
+        const available = (await listMicrophones()).map((device) => device.deviceId);
+        const current = track.getSettings().deviceId;
+        const wanted = this.settings.microphone.deviceId;
+        if (track.readyState === 'ended' || (current && !available.includes(current))) {
+          this.rebuildCapture('microphone removed');
+        } else if (wanted && wanted !== current && available.includes(wanted)) {
+          this.rebuildCapture('selected microphone connected');
+        }
+      } catch (err) {
+        console.error('[DEVICES] Error handling device change:', err);
+      }
+    };
+
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    navigator.mediaDevices.addEventListener('devicechange', onDeviceChange);
+    // Capture carries on while the socket reconnects, but a connection that
+    // gives up ends the session
+    const unsubscribe = this.transport.subscribeToConnectionStatus((status) => {
+      switch (status.state) {
+        case 'connected':
+          this.dispatch({ type: 'reconnected' });
+          break;
+        case 'connecting':
+        case 'reconnecting':
+          this.dispatch({ type: 'disconnected' });
+          break;
+        default:
+          this.fail(new Error(`Lost connection to the server: ${status.error ?? status.state}`));
+      }
+    });
+
+    return () => {
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+      navigator.mediaDevices.removeEventListener('devicechange', onDeviceChange);
+      unsubscribe();
+    };
+  }
+
+  /**
+   * Records one take of the wake word from the live capture and returns its
+   * features.
+   */
+  async recordWakeWordTake(): Promise<number[][]> {
+    const capture = this.capture;
+    if (!capture) {
+      throw new Error('Start listening to record the wake word');
+    }
+    // An older model shouldn't fire on the take itself
+    capture.setWakeWord(null);
+    const start = capture.position;
+    try {
+      await new Promise((resolve) => setTimeout(resolve, WAKE_WORD_TAKE_MS));
+      return await capture.extractFeatures(capture.slice(start));
+    } finally {
+      capture.setWakeWord(this.settings.wakeWord?.templates ?? null);
+    }
+  }
+}
@@ -0,0 +1,422 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_DSP_OPTIONS } from './audioMerging';
+import {
+  describeInvalidPayload,
+  serverEventValidators,
+  type AckEventName,
+  type AckPayload,
+  type AckResponse,
+  type ClientToServerEvents,
+  type ServerEventName,
+  type ServerEventPayload,
+} from './protocol';
+import { createSemanticContext } from './semanticContext';
+import type { ConnectionStatus } from './socket';
+import { BUILT_IN_PROFILES } from './vadProfiles';
+import type { CaptureSettings } from './voiceCapture';
+import { VoiceExpenseEngine, type EngineStorage, type EngineTransport } from './voiceExpenseEngine';
+import type {
+  ExpenseRecord,
+  Proposal,
+  QueuedAudioChunk,
+  RejectedProposal,
+  SemanticContext,
+  SemanticUnit,
+} from '../types';
+
+class FakeTransport implements EngineTransport {
+  connected = true;
+  emitted: { event: string; payload: unknown }[] = [];
+  requests: { event: string; payload: unknown }[] = [];
+  protocolErrors: string[] = [];
+  // Answers acknowledged requests; a transcription of every chunk by default
+  respond = async (_event: AckEventName, payload: { sequenceId: number }): Promise<unknown> => ({
+    success: true,
+    sequenceId: payload.sequenceId,
+    transcription: `chunk ${payload.sequenceId}`,
+  });
+  private handlers = new Map<string, Set<(data: never) => void>>();
+  private statusListeners = new Set<(status: ConnectionStatus) => void>();
+
+  isConnected() {
+    return this.connected;
+  }
+
+  getConnectionStatus(): ConnectionStatus {
+    return { state: this.connected ? 'connected' : 'reconnecting', serverUrl: 'fake' };
+  }
+
+  subscribeToConnectionStatus(listener: (status: ConnectionStatus) => void) {
+    this.statusListeners.add(listener);
+    return () => this.statusListeners.delete(listener);
+  }
+
+  subscribe<E extends ServerEventName>(event: E, handler: (data: ServerEventPayload<E>) => void) {
+    const eventHandlers = this.handlers.get(event) ?? new Set();
+    this.handlers.set(event, eventHandlers);
+    eventHandlers.add(handler);
+    return () => eventHandlers.delete(handler);
+  }
+
+  emit<E extends keyof ClientToServerEvents>(
+    event: E,
+    ...args: Parameters<ClientToServerEvents[E]>
+  ) {
+    this.emitted.push({ event, payload: args[0] });
+  }
+
+  async request<E extends AckEventName>(event: E, payload: AckPayload<E>) {
+    this.requests.push({ event, payload });
+    return (await this.respond(event, payload)) as AckResponse<E>;
+  }
+
+  reportProtocolError(_event: string, _payload: unknown, message: string) {
+    this.protocolErrors.push(message);
+  }
+
+  // A server event, validated the way socket.ts does it
+  serverSends<E extends ServerEventName>(event: E, data: unknown) {
+    if (!serverEventValidators[event](data)) {
+      this.reportProtocolError(event, data, describeInvalidPayload(event, data));
+      return;
+    }
+    this.handlers.get(event)?.forEach((handler) => (handler as (data: unknown) => void)(data));
+  }
+
+  setConnected(connected: boolean) {
+    this.connected = connected;
+    this.statusListeners.forEach((listener) => listener(this.getConnectionStatus()));
+  }
+}
+
+class MemoryStorage implements EngineStorage {
+  chunks = new Map<number, QueuedAudioChunk>();
+  expenses: ExpenseRecord[] = [];
+  rejections: RejectedProposal[] = [];
+  acknowledgeChunk = vi.fn(async (sequenceId: number) => {
+    this.chunks.delete(sequenceId);
+  });
+
+  async persistChunk(chunk: QueuedAudioChunk) {
+    this.chunks.set(chunk.sequenceId, { ...chunk });
+  }
+  async discardChunk(sequenceId: number) {
+    this.chunks.delete(sequenceId);
+  }
+  async listPendingChunks() {
+    return [...this.chunks.values()].sort((a, b) => a.sequenceId - b.sequenceId);
+  }
+  async countPendingChunks() {
+    return this.chunks.size;
+  }
+  async storeSegmentAudio() {}
+  async addExpense(expense: ExpenseRecord) {
+    this.expenses.push(expense);
+    return expense;
+  }
+  async recordRejection(proposal: Proposal, reason: string) {
+    const rejection = { id: `r${this.rejections.length}`, proposal, reason, rejectedAt: 0 };
+    this.rejections.push(rejection);
+    return rejection;
+  }
+}
+
+const SETTINGS: CaptureSettings = {
+  vadProfile: BUILT_IN_PROFILES[0],
+  codec: 'wav',
+  dsp: DEFAULT_DSP_OPTIONS,
+  streaming: false,
+  recordingMode: 'vad',
+  wakeWord: null,
+  microphone: { deviceId: null, processing: {} },
+};
+
+function chunk(sequenceId: number): QueuedAudioChunk {
+  return {
+    audio: new ArrayBuffer(8),
+    context: createSemanticContext(),
+    timestamp: Date.now(),
+    sequenceId,
+  };
+}
+
+const coffee = { description: 'Coffee', amount: 5, suggestedCategory: 'Food', confidence: 0.9 };
+
+describe('VoiceExpenseEngine', () => {
+  let transport: FakeTransport;
+  let storage: MemoryStorage;
+  let engine: VoiceExpenseEngine;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    transport = new FakeTransport();
+    storage = new MemoryStorage();
+    engine = new VoiceExpenseEngine(SETTINGS, transport, storage);
+    engine.attach();
+  });
+
+  it('sends typed input in sequence and shows it in the transcript', () => {
+    const transcriptions: string[] = [];
+    engine.on('transcription', ({ transcription }) => transcriptions.push(transcription));
+
+    engine.sendText('lunch 12 dollars');
+    engine.sendText('taxi 20');
+
+    expect(transport.emitted.map((e) => e.event)).toEqual(['textInput', 'textInput']);
+    expect(transport.emitted.map((e) => (e.payload as { sequenceId: number }).sequenceId)).toEqual([
+      0, 1,
+    ]);
+    expect(transcriptions).toEqual(['lunch 12 dollars', 'taxi 20']);
+    expect(engine.queue.getTranscript()[1].text).toBe('taxi 20');
+  });
+
+  it('uploads queued chunks and releases their transcriptions in order', async () => {
+    const released: number[] = [];
+    engine.on('transcription', ({ sequenceId }) => released.push(sequenceId));
+    const first = engine.queue.allocateSequenceId();
+    const second = engine.queue.allocateSequenceId();
+
+    await engine.queue.enqueue(chunk(second), null);
+    await engine.queue.enqueue(chunk(first), null);
+
+    await vi.waitFor(() => expect(released).toEqual([0, 1]));
+    expect(transport.requests.map((r) => r.event)).toEqual([
+      'audioDataPartial',
+      'audioDataPartial',
+    ]);
+    expect(storage.chunks.size).toBe(0);
+  });
+
+  it('keeps chunks while offline and replays them on reconnect', async () => {
+    transport.connected = false;
+    await engine.queue.enqueue(chunk(engine.queue.allocateSequenceId()), null);
+    expect(transport.requests).toHaveLength(0);
+
+    transport.setConnected(true);
+    await vi.waitFor(() => expect(engine.queue.getTranscript()[0]?.text).toBe('chunk 0'));
+  });
+
+  it('does not resend a transcribed chunk whose acknowledgement failed', async () => {
+    storage.acknowledgeChunk.mockRejectedValueOnce(new Error('quota exceeded'));
+    await engine.queue.enqueue(chunk(engine.queue.allocateSequenceId()), null);
+    await vi.waitFor(() => expect(storage.acknowledgeChunk).toHaveBeenCalledTimes(1));
+
+    await engine.queue.replay();
+
+    expect(transport.requests).toHaveLength(1);
+    expect(storage.acknowledgeChunk).toHaveBeenCalledTimes(2);
+    expect(storage.chunks.size).toBe(0);
+  });
+
+  it('releases a transcription whose acknowledgement arrives after stop', async () => {
+    let release = () => {};
+    const respond = transport.respond;
+    transport.respond = (event, payload) =>
+      payload.sequenceId === 1
+        ? new Promise((resolve) => {
+            release = () => resolve(respond(event, payload));
+          })
+        : respond(event, payload);
+    await engine.queue.enqueue(chunk(engine.queue.allocateSequenceId()), null);
+    await engine.queue.enqueue(chunk(engine.queue.allocateSequenceId()), null);
+    await vi.waitFor(() => expect(transport.requests).toHaveLength(2));
+
+    engine.capture.stop();
+    release();
+
+    await vi.waitFor(() => expect(engine.queue.getTranscript()[1]?.text).toBe('chunk 1'));
+    expect(engine.queue.getTranscript()[0]?.text).toBe('chunk 0');
+  });
+
+  it('adds, updates and retracts proposals by id', () => {
+    transport.serverSends('proposals', {
+      version: 2,
+      proposals: [
+        { ...coffee, id: 'a' },
+        { ...coffee, id: 'b' },
+      ],
+    });
+    expect(engine.getProposals().map((p) => p.proposal.id)).toEqual(['a', 'b']);
+
+    transport.serverSends('proposals', {
+      version: 2,
+      proposals: [{ ...coffee, id: 'a' }],
+      updates: [{ ...coffee, id: 'b', amount: 6 }],
+      retractions: ['a'],
+    });
+    expect(engine.getProposals().map((p) => [p.proposal.id, p.proposal.amount])).toEqual([
+      ['b', 6],
+    ]);
+  });
+
+  it('reports a malformed proposals message instead of applying it', () => {
+    transport.serverSends('proposals', {
+      version: 2,
+      proposals: [{ ...coffee, id: 'a', amount: 'five' }],
+    });
+    expect(engine.getProposals()).toHaveLength(0);
+    expect(transport.protocolErrors).toHaveLength(1);
+  });
+
+  it('reports a proposal whose semantic context is malformed', () => {
+    transport.serverSends('proposals', {
+      version: 2,
+      proposals: [
+        { ...coffee, id: 'a', semanticContext: { relatedEntities: 'lunch', confidence: 1 } },
+      ],
+    });
+    expect(engine.getProposals()).toHaveLength(0);
+    expect(transport.protocolErrors).toEqual([
+      'Invalid payload: proposals[0]: semanticContext: relatedEntities must be an array of strings',
+    ]);
+  });
+
+  it('keeps two equal legacy proposals apart and recognises a resend', () => {
+    engine.sendText('two coffees and a muffin');
+    const muffin = { ...coffee, description: 'Muffin', amount: 3 };
+    transport.serverSends('proposals', { proposals: JSON.stringify([coffee, coffee]) });
+    // Resent in a different order, with one more expense
+    transport.serverSends('proposals', { proposals: JSON.stringify([muffin, coffee, coffee]) });
+
+    expect(engine.getProposals().map((p) => p.proposal.description)).toEqual([
+      'Coffee',
+      'Coffee',
+      'Muffin',
+    ]);
+    expect(new Set(engine.getProposals().map((p) => p.proposal.id)).size).toBe(3);
+  });
+
+  it('keeps equal legacy proposals from different statements apart', () => {
+    engine.sendText('coffee for 5');
+    transport.serverSends('proposals', { proposals: JSON.stringify([coffee]) });
+    engine.sendText('and another coffee for 5');
+    transport.serverSends('proposals', { proposals: JSON.stringify([coffee]) });
+
+    expect(engine.getProposals().map((p) => p.proposal.sequenceId)).toEqual([0, 1]);
+  });
+
+  it('tells legacy proposals for different days apart', () => {
+    const on = (temporalReference: string) => ({
+      ...coffee,
+      semanticContext: { temporalReference, confidence: 1 },
+    });
+    transport.serverSends('proposals', {
+      proposals: JSON.stringify([on('yesterday'), on('today')]),
+    });
+    expect(engine.getProposals()).toHaveLength(2);
+  });
+
+  it('adds only new and pending updated proposals to the related expenses', async () => {
+    transport.serverSends('proposals', {
+      version: 2,
+      proposals: [
+        { ...coffee, id: 'a' },
+        { ...coffee, id: 'b' },
+      ],
+    });
+    await engine.reject(engine.getProposals()[0].proposal, 'wrong');
+
+    transport.serverSends('proposals', {
+      version: 2,
+      updates: [
+        { ...coffee, id: 'a', amount: 7 },
+        { ...coffee, id: 'b', amount: 6 },
+        { ...coffee, id: 'unknown', amount: 8 },
+      ],
+    });
+
+    expect(engine.semantics.getContext().temporalContext?.relatedExpenses).toEqual([
+      'Coffee (5)',
+      'Coffee (6)',
+    ]);
+  });
+
+  it('stores an approved proposal in the ledger', async () => {
+    transport.serverSends('proposals', { version: 2, proposals: [{ ...coffee, id: 'a' }] });
+    const [{ proposal }] = engine.getProposals();
+
+    await engine.approve(proposal, {}, proposal);
+
+    expect(storage.expenses).toHaveLength(1);
+    expect(storage.expenses[0].description).toBe('Coffee');
+    expect(engine.getProposals()[0].decision).toBe('approved');
+  });
+
+  it('records a rejection with its reason', async () => {
+    transport.serverSends('proposals', { version: 2, proposals: [{ ...coffee, id: 'a' }] });
+    const [{ proposal }] = engine.getProposals();
+
+    await engine.reject(proposal, 'duplicate');
+
+    expect(storage.rejections.map((r) => r.reason)).toEqual(['duplicate']);
+    expect(engine.getProposals()[0].decision).toBe('rejected');
+  });
+
+  it('links proposals to their audio once it has been stored', () => {
+    transport.serverSends('proposals', {
+      version: 2,
+      sequenceId: 0,
+      proposals: [{ ...coffee, id: 'a' }],
+    });
+    expect(engine.getProposals()[0].proposal.audioSegmentId).toBeUndefined();
+
+    engine.queue.attachAudio(0, 'segment-0');
+    engine.queue.attachAudio(1, 'segment-1');
+
+    expect(engine.getProposals()[0].proposal.audioSegmentId).toBe('segment-0');
+  });
+
+  it('folds semantic events into the context sent with typed input', () => {
+    transport.serverSends('semanticUnitDetected', {
+      unit: 'lunch with Sam',
+      confidence: 0.8,
+      requiresMoreContext: false,
+    });
+    transport.serverSends('learningUpdate', { commonCorrections: ['sam → Sam'] });
+
+    engine.sendText('lunch 12');
+
+    const { context } = transport.emitted[0].payload as { context: SemanticContext };
+    expect(context.temporalContext?.previousMentions).toEqual(['lunch with Sam']);
+    expect(context.learningContext?.commonCorrections).toEqual(['sam → Sam']);
+    expect(engine.semantics.getUnits()).toHaveLength(1);
+  });
+
+  it('answers a clarification with the next statement', () => {
+    transport.serverSends('semanticUnitDetected', {
+      unit: 'that thing',
+      unitId: 'u1',
+      confidence: 0.4,
+      requiresMoreContext: true,
+    });
+    expect(engine.semantics.getActiveClarification()?.id).toBe('u1');
+
+    engine.sendText('the taxi');
+
+    const { semanticUnit } = transport.emitted[0].payload as { semanticUnit?: SemanticUnit };
+    expect(semanticUnit?.context.related_units).toEqual(['u1']);
+    expect(engine.semantics.getActiveClarification()).toBeNull();
+  });
+
+  it('sends a typed clarification answer through the transport', () => {
+    transport.serverSends('semanticUnitDetected', {
+      unit: 'that thing',
+      unitId: 'u1',
+      confidence: 0.4,
+      requiresMoreContext: true,
+    });
+    const unit = engine.semantics.getActiveClarification()!;
+
+    engine.answerClarification(unit, 'the taxi to the airport');
+
+    expect(transport.emitted).toEqual([
+      {
+        event: 'clarificationReply',
+        payload: expect.objectContaining({ unitId: 'u1', text: 'the taxi to the airport' }),
+      },
+    ]);
+    expect(engine.semantics.getActiveClarification()).toBeNull();
+  });
+});
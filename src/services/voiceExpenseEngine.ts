@@ -0,0 +1,457 @@
+/**
+ * voiceExpenseEngine.ts
+ *
+ * The whole voice-to-expense pipeline without any UI: capture and VAD
+ * (VoiceCapture), upload and ordered transcription (TranscriptionQueue),
+ * the semantic context (SemanticContextTracker), typed input, corrections,
+ * clarifications and proposals. State changes are emitted as
+ * typed events, so it can back a React UI through the hooks in src/hooks,
+ * another UI, or a test driving it directly. The server connection and
+ * persistence are passed in (see engineAdapters.ts for the browser ones).
+ *
+ *   const engine = new VoiceExpenseEngine(loadCaptureSettings(), socketTransport, browserStorage);
+ *   const detach = engine.attach();
+ *   engine.on('transcript', render);
+ *   await engine.capture.start(null);
+ */
+import { EncoderStatsCollector } from './encoderStats';
+import { proposalToExpense } from './ledger';
+import {
+  parseLegacyProposals,
+  PROPOSALS_VERSION,
+  type AckEventName,
+  type AckPayload,
+  type AckResponse,
+  type ClientToServerEvents,
+  type ContextProgressPayload,
+  type LegacyProposal,
+  type ProposalsMessage,
+  type ProposalsPayload,
+  type ServerEventName,
+  type ServerEventPayload,
+  type ServerProposal,
+} from './protocol';
+import type { RecorderState } from './recorderState';
+import type { StoredSegmentAudio } from './segmentAudioStore';
+import { buildClarificationReply } from './semanticContext';
+import { SemanticContextTracker } from './semanticContextTracker';
+import type { SessionProposal } from './sessions';
+import type { ConnectionStatus } from './socket';
+import { describeCorrections, type Transcript } from './transcript';
+import { TranscriptionQueue } from './transcriptionQueue';
+import { TypedEmitter } from './typedEvents';
+import { VADMetricsCollector } from './vadMetrics';
+import { VoiceCapture, type CaptureSettings } from './voiceCapture';
+import type {
+  ChunkState,
+  ExpenseRecord,
+  IdentifiedSemanticUnit,
+  Proposal,
+  ProposalDiff,
+  QueuedAudioChunk,
+  RejectedProposal,
+  SemanticContext,
+  TranscriptSegment,
+} from '../types';
+
+export interface VoiceExpenseEngineEvents {
+  state: RecorderState;
+  transcript: Transcript;
+  chunks: ChunkState[];
+  // Chunks persisted but not yet acknowledged
+  pendingChunks: number;
+  proposals: SessionProposal[];
+  // A final transcription with text, released in sequenceId order
+  transcription: { sequenceId: number; transcription: string };
+  // A segment's audio was stored and can be played back
+  segmentAudio: { sequenceId: number; segmentId: string };
+  semanticContext: SemanticContext;
+  // Recent semantic units, including any awaiting clarification
+  semanticUnits: IdentifiedSemanticUnit[];
+  contextProgress: ContextProgressPayload;
+  // null clears the last error
+  error: string | null;
+}
+
+/**
+ * The server connection, as the engine uses it. socket.ts in the browser.
+ */
+export interface EngineTransport {
+  isConnected(): boolean;
+  getConnectionStatus(): ConnectionStatus;
+  subscribeToConnectionStatus(listener: (status: ConnectionStatus) => void): () => void;
+  // Validated server events
+  subscribe<E extends ServerEventName>(
+    event: E,
+    handler: (data: ServerEventPayload<E>) => void
+  ): () => void;
+  emit<E extends keyof ClientToServerEvents>(
+    event: E,
+    ...args: Parameters<ClientToServerEvents[E]>
+  ): void;
+  // Rejects on timeout or an invalid acknowledgement
+  request<E extends AckEventName>(
+    event: E,
+    payload: AckPayload<E>,
+    timeoutMs: number
+  ): Promise<AckResponse<E>>;
+  reportProtocolError(event: string, payload: unknown, message: string): void;
+}
+
+/**
+ * Where the engine keeps unsent chunks, segment audio and decided
+ * proposals. IndexedDB in the browser.
+ */
+export interface EngineStorage {
+  persistChunk(chunk: QueuedAudioChunk): Promise<void>;
+  acknowledgeChunk(sequenceId: number): Promise<void>;
+  discardChunk(sequenceId: number): Promise<void>;
+  listPendingChunks(): Promise<QueuedAudioChunk[]>;
+  countPendingChunks(): Promise<number>;
+  storeSegmentAudio(segment: Omit<StoredSegmentAudio, 'byteLength' | 'storedAt'>): Promise<void>;
+  addExpense(expense: ExpenseRecord): Promise<ExpenseRecord>;
+  recordRejection(proposal: Proposal, reason: string): Promise<RejectedProposal>;
+}
+
+// What identifies an unversioned proposal: what it was for, how much and when
+function legacyContentKey(proposal: LegacyProposal): string {
+  return JSON.stringify([
+    proposal.description.trim().toLowerCase(),
+    proposal.amount,
+    proposal.semanticContext?.temporalReference ?? null,
+  ]);
+}
+
+export class VoiceExpenseEngine {
+  readonly metrics = new VADMetricsCollector();
+  readonly encoderStats = new EncoderStatsCollector();
+  readonly queue: TranscriptionQueue;
+  readonly capture: VoiceCapture;
+  readonly semantics: SemanticContextTracker;
+  private events = new TypedEmitter<VoiceExpenseEngineEvents>();
+  private proposals: SessionProposal[] = [];
+  // Proposals are generated from the most recent transcription
+  private lastTranscription: { sequenceId: number; transcription: string } | null = null;
+
+  constructor(
+    settings: CaptureSettings,
+    private transport: EngineTransport,
+    private storage: EngineStorage
+  ) {
+    this.queue = new TranscriptionQueue(this.events, this.metrics, transport, storage);
+    this.semantics = new SemanticContextTracker(this.events);
+    this.capture = new VoiceCapture(
+      this.events,
+      this.queue,
+      this.metrics,
+      this.encoderStats,
+      this.semantics,
+      settings,
+      transport,
+      storage
+    );
+    this.events.on('transcription', (transcription) => {
+      this.lastTranscription = transcription;
+    });
+    this.events.on('segmentAudio', ({ sequenceId, segmentId }) =>
+      this.attachProposalAudio(sequenceId, segmentId)
+    );
+  }
+
+  /**
+   * Subscribes to an engine event. Returns an unsubscribe function.
+   */
+  on<E extends keyof VoiceExpenseEngineEvents>(
+    event: E,
+    listener: (data: VoiceExpenseEngineEvents[E]) => void
+  ): () => void {
+    return this.events.on(event, listener);
+  }
+
+  /**
+   * Connects the engine to the server events it consumes and replays any
+   * chunks left from earlier. Returns a function that detaches it again and
+   * stops listening.
+   */
+  attach(): () => void {
+    const { transport } = this;
+    this.queue.replay();
+    const unsubscribers = [
+      transport.subscribeToConnectionStatus((status) => {
+        if (status.state === 'connected') this.queue.replay();
+      }),
+
+      transport.subscribe('transcription', (response) => {
+        if (response.success && response.transcription) {
+          this.queue.deliver(response.sequenceId, response.transcription, response.confidence);
+        }
+      }),
+
+      // Streams get interim results while the speaker is talking, then a final one
+      transport.subscribe('orderedTranscription', (data) => {
+        if (data.isComplete) {
+          this.queue.deliver(data.sequenceId, data.transcription, data.confidence);
+        } else {
+          this.queue.applyInterim(data.sequenceId, data.transcription, data.confidence);
+        }
+      }),
+
+      transport.subscribe('proposals', (data) => this.handleProposals(data)),
+
+      transport.subscribe('semanticUnitDetected', (data) => this.semantics.applyUnit(data)),
+      transport.subscribe('contextUpdate', (data) => this.semantics.applyContextUpdate(data)),
+      transport.subscribe('learningUpdate', (data) => this.semantics.applyLearningUpdate(data)),
+      transport.subscribe('contextProgress', (data) => this.semantics.setProgress(data)),
+
+      transport.subscribe('error', (error) => {
+        console.error('[CLIENT] Socket error:', error);
+        this.events.emit('error', error.message);
+      }),
+    ];
+
+    return () => {
+      unsubscribers.forEach((unsubscribe) => unsubscribe());
+      if (this.capture.getState().status !== 'idle') this.capture.stop();
+    };
+  }
+
+  isConnected(): boolean {
+    return this.transport.isConnected();
+  }
+
+  getProposals(): SessionProposal[] {
+    return this.proposals;
+  }
+
+  // The sequenceId the next segment or typed statement will take
+  get nextSequenceId(): number {
+    return this.queue.nextSequenceId;
+  }
+
+  private updateProposals(reducer: (proposals: SessionProposal[]) => SessionProposal[]) {
+    this.proposals = reducer(this.proposals);
+    this.events.emit('proposals', this.proposals);
+  }
+
+  /**
+   * Shows a saved transcript and its proposals, e.g. from a session.
+   */
+  load(transcript: TranscriptSegment[], proposals: SessionProposal[]) {
+    this.queue.load(transcript);
+    // Sessions saved before proposals had ids get one
+    this.updateProposals(() =>
+      proposals.map((p) =>
+        p.proposal.id ? p : { ...p, proposal: { ...p.proposal, id: crypto.randomUUID() } }
+      )
+    );
+
+    const lastSpoken = transcript
+      .filter((segment) => segment.status === 'final' && segment.text)
+      .pop();
+    this.lastTranscription = lastSpoken
+      ? { sequenceId: lastSpoken.sequenceId, transcription: lastSpoken.text }
+      : null;
+  }
+
+  private handleProposals(data: ProposalsPayload) {
+    console.log('[CLIENT] Received proposals:', data);
+
+    if (data.version !== undefined) {
+      this.applyProposals(data);
+      return;
+    }
+
+    const legacy = parseLegacyProposals(data.proposals);
+    if ('problem' in legacy) {
+      this.transport.reportProtocolError('proposals', data, `Invalid payload: ${legacy.problem}`);
+      return;
+    }
+    // Unversioned proposals get ids from the statement they came from, their
+    // content and how often that content has come up in the list, so a
+    // resent or reordered list is recognised while two equal expenses stay
+    // two, whether said together or in separate statements
+    const sequenceId = this.lastTranscription?.sequenceId;
+    const occurrences = new Map<string, number>();
+    this.applyProposals({
+      version: PROPOSALS_VERSION,
+      sequenceId,
+      proposals: legacy.proposals.map((proposal) => {
+        const source = proposal.sequenceId ?? sequenceId ?? 'unknown';
+        const content = `${source}:${legacyContentKey(proposal)}`;
+        const occurrence = occurrences.get(content) ?? 0;
+        occurrences.set(content, occurrence + 1);
+        return { ...proposal, id: `v1:${content}#${occurrence}` };
+      }),
+    });
+  }
+
+  // Attaches the statement (and its audio) a server proposal came from
+  private withProvenance(proposal: ServerProposal, sequenceId: number | undefined): Proposal {
+    const source = proposal.sequenceId ?? sequenceId;
+    const segment = source !== undefined ? this.queue.getTranscript()[source] : undefined;
+    return {
+      ...proposal,
+      sequenceId: source,
+      sourceTranscription: segment?.text,
+      audioSegmentId: segment?.audio?.segmentId,
+    };
+  }
+
+  // Proposals from a stream can arrive before its audio has been stored
+  private attachProposalAudio(sequenceId: number, segmentId: string) {
+    const needsAudio = (p: SessionProposal) =>
+      p.decision === 'pending' &&
+      p.proposal.sequenceId === sequenceId &&
+      !p.proposal.audioSegmentId;
+    if (!this.proposals.some(needsAudio)) return;
+    this.updateProposals((prev) =>
+      prev.map((p) =>
+        needsAudio(p) ? { ...p, proposal: { ...p.proposal, audioSegmentId: segmentId } } : p
+      )
+    );
+  }
+
+  private applyProposals(message: ProposalsMessage) {
+    const sequenceId = message.sequenceId ?? this.lastTranscription?.sequenceId;
+    const known = new Set(this.proposals.map((p) => p.proposal.id));
+    const added = (message.proposals ?? [])
+      .filter((p) => {
+        if (known.has(p.id)) return false;
+        known.add(p.id);
+        return true;
+      })
+      .map((p) => this.withProvenance(p, sequenceId));
+    const updates = new Map((message.updates ?? []).map((p) => [p.id, p]));
+    const retractions = new Set(message.retractions ?? []);
+
+    // Updates and retractions only apply while the user has not decided
+    const pendingIds = new Set(
+      this.proposals.filter((p) => p.decision === 'pending').map((p) => p.proposal.id)
+    );
+    const ignored = [...updates.keys(), ...retractions].filter((id) => !pendingIds.has(id));
+    if (ignored.length > 0) {
+      console.warn('[CLIENT] Ignoring changes to decided or unknown proposals:', ignored);
+    }
+
+    // Let later chunks refer back to expenses already mentioned
+    const mentioned = [...added, ...[...updates.values()].filter((p) => pendingIds.has(p.id))];
+    if (mentioned.length > 0) {
+      this.semantics.addRelatedExpenses(mentioned.map((p) => `${p.description} (${p.amount})`));
+    }
+
+    console.log('[CLIENT] Applying proposals:', {
+      added,
+      updated: [...updates.keys()],
+      retracted: [...retractions],
+    });
+    this.updateProposals((prev) => [
+      ...prev
+        .filter((p) => p.decision !== 'pending' || !retractions.has(p.proposal.id))
+        .map((p) => {
+          const update = updates.get(p.proposal.id);
+          if (!update || p.decision !== 'pending') return p;
+          return {
+            ...p,
+            proposal: this.withProvenance(update, p.proposal.sequenceId),
+          };
+        }),
+      ...added.map((proposal): SessionProposal => ({ proposal, decision: 'pending' })),
+    ]);
+  }
+
+  /**
+   * Sends a typed statement. It takes the next sequenceId, so the server
+   * orders it among the spoken segments and proposals come back the same way.
+   */
+  sendText(text: string) {
+    if (!this.transport.isConnected()) {
+      throw new Error('Socket not connected');
+    }
+
+    const sequenceId = this.queue.allocateSequenceId();
+    const timestamp = Date.now();
+    console.log('[CLIENT] Sending typed input as sequenceId:', sequenceId);
+    this.transport.emit('textInput', {
+      text,
+      sequenceId,
+      timestamp,
+      context: this.semantics.getContext(),
+      semanticUnit: this.semantics.takeClarificationReply(),
+    });
+    this.queue.addTyped(sequenceId, text, timestamp);
+  }
+
+  /**
+   * A user fix of a misheard word; the server learns it as a common
+   * correction.
+   */
+  correct(sequenceId: number, text: string) {
+    const segment = this.queue.getTranscript()[sequenceId];
+    if (!segment) return;
+    const corrections = describeCorrections(segment.text, text);
+    if (corrections.length === 0) return;
+
+    console.log('[CLIENT] Transcript corrected for sequenceId:', sequenceId, corrections);
+    this.queue.correct(sequenceId, text);
+    this.semantics.addCorrections(corrections);
+    if (this.lastTranscription?.sequenceId === sequenceId) {
+      this.lastTranscription = { sequenceId, transcription: text };
+    }
+    this.transport.emit('transcriptCorrection', {
+      sequenceId,
+      originalText: segment.originalText ?? segment.text,
+      correctedText: text,
+      corrections,
+      context: this.semantics.getContext(),
+    });
+  }
+
+  /**
+   * Sends a typed answer to a clarification prompt, out of band from the
+   * statement sequence.
+   */
+  answerClarification(unit: IdentifiedSemanticUnit, text: string) {
+    console.log('[CLIENT] Clarification answered for unit:', unit.id, text);
+    this.transport.emit('clarificationReply', {
+      unitId: unit.id,
+      text,
+      semanticUnit: buildClarificationReply(unit, text),
+      context: this.semantics.getContext(),
+    });
+    this.semantics.resolveClarification(unit.id);
+  }
+
+  async approve(proposal: Proposal, diff: ProposalDiff, original: Proposal) {
+    console.log('[CLIENT] Approved proposal:', proposal, 'edits:', diff);
+    try {
+      await this.storage.addExpense({ ...proposalToExpense(proposal), corrections: diff });
+      this.updateProposals((prev) =>
+        prev.map((p) =>
+          p.proposal.id === original.id
+            ? { ...p, decision: 'approved', decidedAt: Date.now(), diff }
+            : p
+        )
+      );
+    } catch (err) {
+      console.error('[CLIENT] Error saving expense:', err);
+      this.events.emit('error', err instanceof Error ? err.message : String(err));
+    }
+  }
+
+  async reject(proposal: Proposal, reason: string) {
+    console.log('[CLIENT] Rejected proposal:', proposal, 'reason:', reason);
+    try {
+      await this.storage.recordRejection(proposal, reason);
+      this.updateProposals((prev) =>
+        prev.map((p) =>
+          p.proposal.id === proposal.id
+            ? { ...p, decision: 'rejected', decidedAt: Date.now(), rejectionReason: reason }
+            : p
+        )
+      );
+    } catch (err) {
+      console.error('[CLIENT] Error recording rejection:', err);
+      this.events.emit('error', err instanceof Error ? err.message : String(err));
+    }
+  }
+}
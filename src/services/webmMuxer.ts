@@ -0,0 +1,187 @@
+/**
+ * webmMuxer.ts
+ *
+ * Just enough EBML to wrap a single Opus track in a WebM file: header,
+ * segment info, one track entry and SimpleBlocks grouped into clusters.
+ * The whole file is built in memory once all packets are known, so every
+ * element can be written with its exact size.
+ */
+
+export interface WebMAudioTrack {
+  codecId: string;
+  codecPrivate?: Uint8Array;
+  sampleRate: number;
+  channels: number;
+  // Nanoseconds of decoder delay (Opus pre-skip)
+  codecDelay?: number;
+  seekPreRoll?: number;
+}
+
+export interface WebMPacket {
+  data: Uint8Array;
+  // Microseconds from the start of the stream
+  timestamp: number;
+}
+
+const ID = {
+  EBML: 0x1a45dfa3,
+  EBMLVersion: 0x4286,
+  EBMLReadVersion: 0x42f7,
+  EBMLMaxIDLength: 0x42f2,
+  EBMLMaxSizeLength: 0x42f3,
+  DocType: 0x4282,
+  DocTypeVersion: 0x4287,
+  DocTypeReadVersion: 0x4285,
+  Segment: 0x18538067,
+  Info: 0x1549a966,
+  TimecodeScale: 0x2ad7b1,
+  Duration: 0x4489,
+  MuxingApp: 0x4d80,
+  WritingApp: 0x5741,
+  Tracks: 0x1654ae6b,
+  TrackEntry: 0xae,
+  TrackNumber: 0xd7,
+  TrackUID: 0x73c5,
+  TrackType: 0x83,
+  CodecID: 0x86,
+  CodecPrivate: 0x63a2,
+  CodecDelay: 0x56aa,
+  SeekPreRoll: 0x56bb,
+  Audio: 0xe1,
+  SamplingFrequency: 0xb5,
+  Channels: 0x9f,
+  Cluster: 0x1f43b675,
+  Timecode: 0xe7,
+  SimpleBlock: 0xa3,
+} as const;
+
+// Timestamps in milliseconds (TimecodeScale of 1,000,000 ns)
+const TIMECODE_SCALE = 1_000_000;
+// Block timecodes are signed 16-bit offsets from their cluster
+const MAX_CLUSTER_SPAN_MS = 30_000;
+const TRACK_NUMBER = 1;
+const TRACK_TYPE_AUDIO = 2;
+
+const encoder = new TextEncoder();
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+function idBytes(id: number): Uint8Array {
+  const bytes: number[] = [];
+  for (let v = id; v > 0; v = Math.floor(v / 256)) bytes.unshift(v & 0xff);
+  return Uint8Array.from(bytes);
+}
+
+// EBML variable-length size: a length marker bit followed by the value
+function sizeBytes(size: number): Uint8Array {
+  let length = 1;
+  while (size >= 2 ** (7 * length) - 1) length++;
+  const bytes = new Uint8Array(length);
+  let v = size;
+  for (let i = length - 1; i >= 0; i--) {
+    bytes[i] = v & 0xff;
+    v = Math.floor(v / 256);
+  }
+  bytes[0] |= 0x80 >> (length - 1);
+  return bytes;
+}
+
+function element(id: number, ...children: Uint8Array[]): Uint8Array {
+  const data = concat(children);
+  return concat([idBytes(id), sizeBytes(data.length), data]);
+}
+
+function uintElement(id: number, value: number): Uint8Array {
+  const bytes: number[] = [];
+  for (let v = value; v > 0 || bytes.length === 0; v = Math.floor(v / 256)) bytes.unshift(v & 0xff);
+  return element(id, Uint8Array.from(bytes));
+}
+
+function floatElement(id: number, value: number): Uint8Array {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setFloat64(0, value);
+  return element(id, bytes);
+}
+
+function stringElement(id: number, value: string): Uint8Array {
+  return element(id, encoder.encode(value));
+}
+
+function simpleBlock(packet: WebMPacket, clusterTimecode: number): Uint8Array {
+  const header = new Uint8Array(4);
+  const view = new DataView(header.buffer);
+  header[0] = 0x80 | TRACK_NUMBER;
+  view.setInt16(1, Math.round(packet.timestamp / 1000) - clusterTimecode);
+  // Every audio frame is a keyframe
+  header[3] = 0x80;
+  return element(ID.SimpleBlock, header, packet.data);
+}
+
+/**
+ * Builds a WebM file holding `packets` as a single audio track.
+ */
+export function muxWebM(track: WebMAudioTrack, packets: WebMPacket[], durationMs: number) {
+  const ebmlHeader = element(
+    ID.EBML,
+    uintElement(ID.EBMLVersion, 1),
+    uintElement(ID.EBMLReadVersion, 1),
+    uintElement(ID.EBMLMaxIDLength, 4),
+    uintElement(ID.EBMLMaxSizeLength, 8),
+    stringElement(ID.DocType, 'webm'),
+    uintElement(ID.DocTypeVersion, 4),
+    uintElement(ID.DocTypeReadVersion, 2)
+  );
+
+  const info = element(
+    ID.Info,
+    uintElement(ID.TimecodeScale, TIMECODE_SCALE),
+    floatElement(ID.Duration, durationMs),
+    stringElement(ID.MuxingApp, 'agent-test-client'),
+    stringElement(ID.WritingApp, 'agent-test-client')
+  );
+
+  const trackEntry = element(
+    ID.TrackEntry,
+    uintElement(ID.TrackNumber, TRACK_NUMBER),
+    uintElement(ID.TrackUID, TRACK_NUMBER),
+    uintElement(ID.TrackType, TRACK_TYPE_AUDIO),
+    stringElement(ID.CodecID, track.codecId),
+    ...(track.codecPrivate ? [element(ID.CodecPrivate, track.codecPrivate)] : []),
+    ...(track.codecDelay ? [uintElement(ID.CodecDelay, track.codecDelay)] : []),
+    ...(track.seekPreRoll ? [uintElement(ID.SeekPreRoll, track.seekPreRoll)] : []),
+    element(
+      ID.Audio,
+      floatElement(ID.SamplingFrequency, track.sampleRate),
+      uintElement(ID.Channels, track.channels)
+    )
+  );
+
+  const clusters: Uint8Array[] = [];
+  let blocks: Uint8Array[] = [];
+  let clusterTimecode = 0;
+  const flush = () => {
+    if (blocks.length === 0) return;
+    clusters.push(element(ID.Cluster, uintElement(ID.Timecode, clusterTimecode), ...blocks));
+    blocks = [];
+  };
+  for (const packet of packets) {
+    const timecode = Math.round(packet.timestamp / 1000);
+    if (timecode - clusterTimecode >= MAX_CLUSTER_SPAN_MS) {
+      flush();
+      clusterTimecode = timecode;
+    }
+    blocks.push(simpleBlock(packet, clusterTimecode));
+  }
+  flush();
+
+  const segment = element(ID.Segment, info, element(ID.Tracks, trackEntry), ...clusters);
+  return concat([ebmlHeader, segment]);
+}
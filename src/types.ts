@@ -1,6 +1,8 @@
 import { VoiceActivityDetectionOptions } from 'voice-activity-detection';
 
 export interface Proposal {
+  // Server-assigned, and what updates and retractions refer to
+  id: string;
   description: string;
   amount: number;
   suggestedCategory: string;
@@ -10,18 +12,57 @@ export interface Proposal {
     relatedEntities?: string[];
     confidence: number;
   };
+  // Client-side provenance, attached when the proposal is received
+  sequenceId?: number;
+  sourceTranscription?: string;
+  // Key of the source audio in the segment audio store
+  audioSegmentId?: string;
+}
+
+export type EditableProposalField = 'description' | 'amount' | 'suggestedCategory';
+
+// Field-by-field changes a user made to a proposal before approving it
+export type ProposalDiff = {
+  [K in EditableProposalField]?: { from: Proposal[K]; to: Proposal[K] };
+};
+
+export interface ExpenseRecord {
+  id: string;
+  description: string;
+  amount: number;
+  category: string;
+  date: string; // ISO date (YYYY-MM-DD)
+  temporalReference?: string;
+  sourceTranscription?: string;
+  sequenceId?: number;
+  corrections?: ProposalDiff;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface RejectedProposal {
+  id: string;
+  proposal: Proposal;
+  reason: string;
+  rejectedAt: number;
 }
 
 export interface SemanticUnit {
+  id?: string;
+  text?: string;
   timestamp: number;
   confidence: number;
   context: {
     complete: boolean;
     requires_clarification: boolean;
     related_units?: string[];
+    clarification_prompt?: string;
   };
 }
 
+// A unit the client tracks, e.g. for clarification; these always have an id
+export type IdentifiedSemanticUnit = SemanticUnit & { id: string };
+
 export interface SemanticContext {
   timestamp: number;
   isComplete: boolean;
@@ -37,11 +78,54 @@ export interface SemanticContext {
   };
 }
 
+export type ChunkStatus = 'queued' | 'sending' | 'retrying' | 'failed' | 'done';
+
 export interface QueuedAudioChunk {
   audio: ArrayBuffer;
   context: SemanticContext;
   timestamp: number;
   sequenceId: number;
+  // Reply unit linking this chunk to the unit it clarifies
+  semanticUnit?: SemanticUnit;
+  status?: ChunkStatus;
+  attempts?: number;
+  lastError?: string;
+  nextAttemptAt?: number;
+  // Set when the chunk is one part of an utterance split at maxSpeechDuration
+  segment?: SegmentContinuation;
+  // Absent on chunks queued before encoders were selectable: those are WAV
+  encoding?: AudioEncodingInfo;
+}
+
+// 'pcm16' is only used for the raw frames of streaming mode
+export type AudioCodec = 'wav' | 'flac' | 'opus-webm' | 'pcm16';
+
+// How a chunk's audio is encoded, so the server knows how to decode it
+export interface AudioEncodingInfo {
+  codec: AudioCodec;
+  mimeType: string;
+  sampleRate: number;
+  channels: number;
+}
+
+export interface SegmentContinuation {
+  utteranceId: string;
+  // 0-based part number within the utterance
+  index: number;
+  // False while the speaker is still talking past this part
+  isFinal: boolean;
+  // sequenceId of the previous part, absent on the first part
+  continuesFrom?: number;
+  // Leading audio duplicated from the end of the previous part
+  overlapMs: number;
+}
+
+export interface ChunkState {
+  sequenceId: number;
+  status: ChunkStatus;
+  attempts: number;
+  lastError?: string;
+  updatedAt: number;
 }
 
 export interface AudioChunk {
@@ -60,6 +144,8 @@ export interface TranscriptionResponse {
   error?: string;
   transcription?: string;
   sequenceId: number;
+  // 0-1, when the recognizer reports one
+  confidence?: number;
 }
 
 export interface AudioChunkMetadata {
@@ -67,6 +153,34 @@ export interface AudioChunkMetadata {
   timestamp: number;
   isProcessed: boolean;
   transcription?: string;
+  confidence?: number;
+}
+
+export type TranscriptStatus = 'pending' | 'interim' | 'final' | 'failed';
+
+// What the transcript knows about the audio behind a segment
+export interface TranscriptAudioRef {
+  durationMs: number;
+  encoding?: AudioEncodingInfo;
+  streamed?: boolean;
+  // Key in the segment audio store, once the audio has been kept for playback
+  segmentId?: string;
+}
+
+// One segment of the transcript, keyed by the sequenceId of its audio
+export interface TranscriptSegment {
+  sequenceId: number;
+  status: TranscriptStatus;
+  text: string;
+  // Typed statements have no audio and are final as soon as they are sent
+  source?: 'voice' | 'text';
+  // The server's text, kept once the user has corrected it
+  originalText?: string;
+  capturedAt: number;
+  updatedAt: number;
+  finalizedAt?: number;
+  confidence?: number;
+  audio?: TranscriptAudioRef;
 }
 
 export interface ExtendedVADOptions extends VoiceActivityDetectionOptions {
@@ -74,13 +188,47 @@ export interface ExtendedVADOptions extends VoiceActivityDetectionOptions {
   onSilence?: (duration: number) => void;
   minSpeechDuration?: number;
   maxSpeechDuration?: number;
+  // Audio repeated at the start of the next part when a long utterance is split
+  segmentOverlap?: number;
   silenceDuration?: number;
+  // Pre-roll: audio from before voice start prepended to each segment
   audioBuffering?: {
     enabled: boolean;
+    // Milliseconds
     duration: number;
   };
 }
 
+// The user-tunable subset of ExtendedVADOptions stored in a VAD profile
+export type VADTuning = Required<
+  Pick<
+    ExtendedVADOptions,
+    | 'bufferLen'
+    | 'avgNoiseMultiplier'
+    | 'minNoiseLevel'
+    | 'maxNoiseLevel'
+    | 'minCaptureFreq'
+    | 'maxCaptureFreq'
+    | 'noiseCaptureDuration'
+    | 'minSpeechDuration'
+    | 'maxSpeechDuration'
+    | 'segmentOverlap'
+    | 'silenceDuration'
+    | 'smoothingTimeConstant'
+    | 'audioBuffering'
+  >
+>;
+
+// What starts and ends a segment
+export type RecordingMode = 'vad' | 'push-to-talk' | 'wake-word';
+
+export interface VADProfile {
+  id: string;
+  name: string;
+  builtIn?: boolean;
+  tuning: VADTuning;
+}
+
 // Re-export the VAD instance type
 export interface VADInstance {
   destroy: () => void;
@@ -97,4 +245,14 @@ export interface VADMetrics {
   sumAmplitude: number;
   silenceDuration: number;
   voiceActivityRatio: number;
+  minAmplitude: number;
+  maxAmplitude: number;
+  // Segment was shorter than the minimum and never sent
+  discarded: boolean;
+  // Running count of discarded segments in this session, up to this cycle
+  discardedSegments: number;
+  sequenceIds: number[];
+  transcribedAt: number | null;
+  // Time from voice stop to the first transcription for this cycle
+  timeToTranscription: number | null;
 }
@@ -0,0 +1,12 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_BACKEND_URL?: string;
+  readonly VITE_AUTH_TOKEN?: string;
+  readonly VITE_SOCKET_TRANSPORT?: string;
+  readonly VITE_RECONNECTION_ATTEMPTS?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}